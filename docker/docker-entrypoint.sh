@@ -66,7 +66,7 @@ check_tesseract() {
     log "Tesseract version: $TESSERACT_VERSION"
 
     log "Available languages:"
-    tesseract --list-langs 2>/dev/null | tail -n +2 | while read lang; do
+    tesseract --list-langs ${TESSDATA_DIR:+--tessdata-dir "$TESSDATA_DIR"} 2>/dev/null | tail -n +2 | while read lang; do
         log "  - $lang"
     done
 }
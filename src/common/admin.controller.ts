@@ -0,0 +1,19 @@
+import { Controller, Get } from '@nestjs/common';
+import { ApiKeyService } from './api-key.service';
+import { Admin } from './api-key.decorators';
+import { ApiKeyUsageReport } from '../types/api-key.types';
+
+@Admin()
+@Controller('admin')
+export class AdminController {
+  constructor(private readonly _apiKeyService: ApiKeyService) {}
+
+  /**
+   * Gets the limits and usage counters of all API keys
+   * @returns One report per configured API key
+   */
+  @Get('usage')
+  getUsage(): ApiKeyUsageReport[] {
+    return this._apiKeyService.getUsageReport();
+  }
+}
@@ -0,0 +1,35 @@
+import {
+  createParamDecorator,
+  CustomDecorator,
+  ExecutionContext,
+  SetMetadata,
+} from '@nestjs/common';
+import { ApiKeyConfig } from '../types/api-key.types';
+
+export const IS_PUBLIC_KEY = 'isPublic';
+export const IS_ADMIN_KEY = 'isAdmin';
+
+/**
+ * Marks a route or controller as accessible without an API key
+ * @returns Decorator setting the public metadata
+ */
+export function Public(): CustomDecorator<string> {
+  return SetMetadata(IS_PUBLIC_KEY, true);
+}
+
+/**
+ * Restricts a route or controller to API keys with the admin role
+ * @returns Decorator setting the admin metadata
+ */
+export function Admin(): CustomDecorator<string> {
+  return SetMetadata(IS_ADMIN_KEY, true);
+}
+
+/**
+ * Injects the API key that authenticated the request
+ * Resolves to undefined if API key authentication is disabled
+ */
+export const ApiKey = createParamDecorator(
+  (_: unknown, context: ExecutionContext): ApiKeyConfig | undefined =>
+    context.switchToHttp().getRequest().apiKey,
+);
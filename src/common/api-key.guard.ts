@@ -0,0 +1,85 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Request } from 'express';
+import { ApiKeyService } from './api-key.service';
+import { IS_ADMIN_KEY, IS_PUBLIC_KEY } from './api-key.decorators';
+
+/**
+ * Global guard authenticating requests by API key
+ * The key is read from the `X-API-Key` header, a bearer token or the `apiKey` query parameter (for `EventSource` clients that cannot send headers)
+ */
+@Injectable()
+export class ApiKeyGuard implements CanActivate {
+  constructor(
+    private readonly _reflector: Reflector,
+    private readonly _apiKeyService: ApiKeyService,
+  ) {}
+
+  /**
+   * Authenticates the request and attaches the API key configuration to it
+   * @param context - The execution context of the request
+   * @returns True if the request may proceed
+   * @throws {UnauthorizedException} When the API key is missing or unknown
+   * @throws {ForbiddenException} When an admin route is called without an admin key, or no keys are configured
+   */
+  canActivate(context: ExecutionContext): boolean {
+    const targets = [context.getHandler(), context.getClass()];
+    const isAdminRoute = this._reflector.getAllAndOverride<boolean>(
+      IS_ADMIN_KEY,
+      targets,
+    );
+
+    // WITHOUT CONFIGURED KEYS THE API IS OPEN, EXCEPT FOR ADMIN ROUTES WHICH NOBODY MAY USE
+    if (!this._apiKeyService.isEnabled()) {
+      if (isAdminRoute) {
+        throw new ForbiddenException(
+          'This route requires an admin API key, configure ADMIN_API_KEY to use it',
+        );
+      }
+      return true;
+    }
+
+    if (this._reflector.getAllAndOverride<boolean>(IS_PUBLIC_KEY, targets)) {
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest();
+    const key = this._extractKey(request);
+    const apiKey = key ? this._apiKeyService.findKey(key) : undefined;
+    if (!apiKey) {
+      throw new UnauthorizedException('Missing or invalid API key');
+    }
+
+    if (isAdminRoute && !apiKey.admin) {
+      throw new ForbiddenException('This route requires an admin API key');
+    }
+
+    request.apiKey = apiKey;
+    return true;
+  }
+
+  /**
+   * Reads the API key from the request
+   * @param request - The incoming request
+   * @returns The API key, or undefined if none was sent
+   * @private
+   */
+  private _extractKey(request: Request): string | undefined {
+    const header = request.headers['x-api-key'];
+    if (typeof header === 'string' && header) return header;
+
+    const authorization = request.headers.authorization;
+    if (authorization?.startsWith('Bearer ')) {
+      return authorization.slice('Bearer '.length).trim();
+    }
+
+    const query = request.query.apiKey;
+    return typeof query === 'string' && query ? query : undefined;
+  }
+}
@@ -0,0 +1,235 @@
+import {
+  BadRequestException,
+  HttpException,
+  HttpStatus,
+  Injectable,
+  Logger,
+  PayloadTooLargeException,
+} from '@nestjs/common';
+import { readFileSync } from 'fs';
+import {
+  ApiKeyConfig,
+  ApiKeyUsage,
+  ApiKeyUsageReport,
+} from '../types/api-key.types';
+
+@Injectable()
+export class ApiKeyService {
+  private readonly _logger = new Logger(ApiKeyService.name);
+  private _keys = new Map<string, ApiKeyConfig>();
+  private _usage = new Map<string, ApiKeyUsage>();
+  private _usageDay = this._getDay();
+
+  constructor() {
+    this._loadKeys();
+  }
+
+  /**
+   * Checks if API key authentication is enabled
+   * @returns True if at least one API key is configured, false if the API is open
+   */
+  isEnabled(): boolean {
+    return this._keys.size > 0;
+  }
+
+  /**
+   * Finds the configuration of an API key
+   * @param key - The API key sent by the client
+   * @returns The key configuration, or undefined if the key is unknown
+   */
+  findKey(key: string): ApiKeyConfig | undefined {
+    return this._keys.get(key);
+  }
+
+  /**
+   * Checks a new job against the limits of an API key
+   * Rejected jobs are counted in the usage of the key
+   * @param apiKey - The API key submitting the job, undefined if authentication is disabled
+   * @param imageSize - Size of the uploaded file in bytes
+   * @param language - Requested OCR language, languages combined with `+` are checked individually
+   * @param languages - Candidate languages for language detection, checked instead of `language` when it is `auto`
+   * @param regionLanguages - Languages set on individual regions, checked like `language`
+   * @throws {PayloadTooLargeException} When the file exceeds the size limit of the key
+   * @throws {BadRequestException} When a language is not allowed for the key
+   * @throws {HttpException} With status 429 when the daily job quota of the key is used up
+   */
+  assertJobAllowed(
+    apiKey: ApiKeyConfig | undefined,
+    imageSize: number,
+    language: string,
+    languages?: string[],
+    regionLanguages: string[] = [],
+  ): void {
+    if (!apiKey) return;
+
+    try {
+      if (apiKey.maxImageSize && imageSize > apiKey.maxImageSize) {
+        throw new PayloadTooLargeException(
+          `File size exceeds the limit of ${apiKey.maxImageSize} bytes for this API key`,
+        );
+      }
+
+      const requestedLanguages = [
+        ...(language === 'auto' ? languages || [] : language.split('+')),
+        ...regionLanguages.flatMap((code) => code.split('+')),
+      ];
+      const deniedLanguages = requestedLanguages.filter(
+        (code) => !this._isLanguageAllowed(apiKey, code),
+      );
+      if (deniedLanguages.length > 0) {
+        throw new BadRequestException(
+          `Language not allowed for this API key: ${deniedLanguages.join(', ')}`,
+        );
+      }
+
+      const usage = this._getUsage(apiKey.name);
+      if (apiKey.dailyJobQuota && usage.jobsToday >= apiKey.dailyJobQuota) {
+        throw new HttpException(
+          `Daily job quota of ${apiKey.dailyJobQuota} jobs exceeded for this API key`,
+          HttpStatus.TOO_MANY_REQUESTS,
+        );
+      }
+    } catch (error) {
+      this._getUsage(apiKey.name).rejectedJobs++;
+      throw error;
+    }
+  }
+
+  /**
+   * Gets the candidate languages for language detection
+   * @param apiKey - The API key submitting the job, undefined if authentication is disabled
+   * @param languages - Candidate languages requested by the client
+   * @returns The requested candidates, otherwise the languages allowed for the key, or undefined to consider all installed languages
+   */
+  getDetectionLanguages(
+    apiKey: ApiKeyConfig | undefined,
+    languages?: string[],
+  ): string[] | undefined {
+    return languages || apiKey?.allowedLanguages;
+  }
+
+  /**
+   * Counts a submitted job in the usage of an API key
+   * @param apiKey - The API key that submitted the job, undefined if authentication is disabled
+   * @param imageSize - Size of the uploaded file in bytes
+   */
+  recordJob(apiKey: ApiKeyConfig | undefined, imageSize: number): void {
+    if (!apiKey) return;
+
+    const usage = this._getUsage(apiKey.name);
+    usage.jobsToday++;
+    usage.totalJobs++;
+    usage.bytesProcessed += imageSize;
+    usage.lastUsedAt = new Date();
+  }
+
+  /**
+   * Gets the limits and usage counters of all API keys
+   * @returns One report per configured key, without the key itself
+   */
+  getUsageReport(): ApiKeyUsageReport[] {
+    return [...this._keys.values()].map((apiKey) => ({
+      name: apiKey.name,
+      admin: apiKey.admin === true,
+      limits: {
+        maxImageSize: apiKey.maxImageSize,
+        allowedLanguages: apiKey.allowedLanguages,
+        dailyJobQuota: apiKey.dailyJobQuota,
+      },
+      usage: { ...this._getUsage(apiKey.name) },
+    }));
+  }
+
+  /**
+   * Checks if an API key may use a language
+   * @param apiKey - The API key configuration
+   * @param language - A single language code
+   * @returns True if the key has no language restriction or allows the language
+   * @private
+   */
+  private _isLanguageAllowed(apiKey: ApiKeyConfig, language: string): boolean {
+    return (
+      !apiKey.allowedLanguages || apiKey.allowedLanguages.includes(language)
+    );
+  }
+
+  /**
+   * Gets the usage counters of an API key, resetting daily counters at midnight (UTC)
+   * @param name - The name of the API key
+   * @returns The mutable usage counters of the key
+   * @private
+   */
+  private _getUsage(name: string): ApiKeyUsage {
+    const day = this._getDay();
+    if (day !== this._usageDay) {
+      this._usageDay = day;
+      for (const usage of this._usage.values()) usage.jobsToday = 0;
+    }
+
+    if (!this._usage.has(name)) {
+      this._usage.set(name, {
+        jobsToday: 0,
+        totalJobs: 0,
+        bytesProcessed: 0,
+        rejectedJobs: 0,
+      });
+    }
+    return this._usage.get(name);
+  }
+
+  /**
+   * Gets the current day used for daily quotas
+   * @returns The current UTC date as `YYYY-MM-DD`
+   * @private
+   */
+  private _getDay(): string {
+    return new Date().toISOString().slice(0, 10);
+  }
+
+  /**
+   * Loads API keys from the file in `API_KEYS_FILE`, the keys in `API_KEYS` and the key in `ADMIN_API_KEY`
+   * @throws {Error} When the key file cannot be read or contains invalid keys
+   * @private
+   */
+  private _loadKeys(): void {
+    const keys: ApiKeyConfig[] = [];
+
+    if (process.env.API_KEYS_FILE) {
+      keys.push(...JSON.parse(readFileSync(process.env.API_KEYS_FILE, 'utf8')));
+    }
+
+    // `API_KEYS` CONTAINS COMMA-SEPARATED `<name>:<key>` PAIRS WITHOUT LIMITS
+    for (const entry of (process.env.API_KEYS || '').split(',')) {
+      const separator = entry.indexOf(':');
+      if (separator <= 0) continue;
+      keys.push({
+        name: entry.slice(0, separator).trim(),
+        key: entry.slice(separator + 1).trim(),
+      });
+    }
+
+    if (process.env.ADMIN_API_KEY) {
+      keys.push({ name: 'admin', key: process.env.ADMIN_API_KEY, admin: true });
+    }
+
+    const names = new Set<string>();
+    for (const apiKey of keys) {
+      if (!apiKey.name || !apiKey.key) {
+        throw new Error('Every API key needs a name and a key');
+      }
+      if (names.has(apiKey.name) || this._keys.has(apiKey.key)) {
+        throw new Error(`Duplicate API key: ${apiKey.name}`);
+      }
+      names.add(apiKey.name);
+      this._keys.set(apiKey.key, apiKey);
+    }
+
+    if (this.isEnabled()) {
+      this._logger.log(`Loaded ${this._keys.size} API keys`);
+    } else {
+      this._logger.warn(
+        'No API keys configured, API key authentication is disabled',
+      );
+    }
+  }
+}
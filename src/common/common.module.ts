@@ -1,9 +1,23 @@
 import { Global, Module } from '@nestjs/common';
+import { APP_GUARD } from '@nestjs/core';
 import { VersionService } from './version.service';
+import { ApiKeyService } from './api-key.service';
+import { ApiKeyGuard } from './api-key.guard';
+import { RateLimitService } from './rate-limit.service';
+import { RateLimitGuard } from './rate-limit.guard';
+import { AdminController } from './admin.controller';
 
 @Global()
 @Module({
-  providers: [VersionService],
-  exports: [VersionService],
+  controllers: [AdminController],
+  providers: [
+    VersionService,
+    ApiKeyService,
+    RateLimitService,
+    // GUARDS RUN IN THIS ORDER, RATE LIMITS NEED THE AUTHENTICATED API KEY
+    { provide: APP_GUARD, useClass: ApiKeyGuard },
+    { provide: APP_GUARD, useClass: RateLimitGuard },
+  ],
+  exports: [VersionService, ApiKeyService],
 })
-export class CommonModule {}
\ No newline at end of file
+export class CommonModule {}
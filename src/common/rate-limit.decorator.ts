@@ -0,0 +1,13 @@
+import { CustomDecorator, SetMetadata } from '@nestjs/common';
+import { RateLimitBudget } from '../types/rate-limit.types';
+
+export const RATE_LIMIT_KEY = 'rateLimit';
+
+/**
+ * Counts requests to a route or controller against a rate limit budget
+ * @param budget - The budget to consume a token from
+ * @returns Decorator setting the rate limit metadata
+ */
+export function RateLimit(budget: RateLimitBudget): CustomDecorator<string> {
+  return SetMetadata(RATE_LIMIT_KEY, budget);
+}
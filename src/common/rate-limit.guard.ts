@@ -0,0 +1,69 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  HttpException,
+  HttpStatus,
+  Injectable,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { Request, Response } from 'express';
+import { RateLimitService } from './rate-limit.service';
+import { RATE_LIMIT_KEY } from './rate-limit.decorator';
+import { RateLimitBudget } from '../types/rate-limit.types';
+import { ApiKeyConfig } from '../types/api-key.types';
+
+/**
+ * Global guard enforcing the rate limit budgets of routes marked with `@RateLimit()`
+ * Clients are identified by their API key, or by their IP address if authentication is disabled
+ * Runs after the `ApiKeyGuard`, so the API key is already attached to the request
+ */
+@Injectable()
+export class RateLimitGuard implements CanActivate {
+  constructor(
+    private readonly _reflector: Reflector,
+    private readonly _rateLimitService: RateLimitService,
+  ) {}
+
+  /**
+   * Consumes a token and sets the `RateLimit-*` headers
+   * @param context - The execution context of the request
+   * @returns True if the request is within the rate limit
+   * @throws {HttpException} With status 429 and a `Retry-After` header when the budget is used up
+   */
+  canActivate(context: ExecutionContext): boolean {
+    const budget = this._reflector.getAllAndOverride<RateLimitBudget>(
+      RATE_LIMIT_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+    if (!budget) return true;
+
+    const request = context
+      .switchToHttp()
+      .getRequest<Request & { apiKey?: ApiKeyConfig }>();
+    const response = context.switchToHttp().getResponse<Response>();
+    const clientId = request.apiKey
+      ? `key:${request.apiKey.name}`
+      : `ip:${request.ip}`;
+
+    const result = this._rateLimitService.consume(budget, clientId);
+    if (!result) return true;
+
+    // HEADERS AS DEFINED BY THE IETF `RateLimit` HEADER FIELDS DRAFT
+    response.setHeader('RateLimit-Limit', result.policy.capacity);
+    response.setHeader('RateLimit-Remaining', result.remaining);
+    response.setHeader('RateLimit-Reset', result.resetSeconds);
+    response.setHeader(
+      'RateLimit-Policy',
+      `${result.policy.capacity};w=${result.policy.windowSeconds}`,
+    );
+
+    if (!result.allowed) {
+      response.setHeader('Retry-After', result.retryAfterSeconds);
+      throw new HttpException(
+        'Rate limit exceeded, please try again later',
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+    return true;
+  }
+}
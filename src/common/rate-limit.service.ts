@@ -0,0 +1,143 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import {
+  RateLimitBudget,
+  RateLimitPolicy,
+  RateLimitResult,
+} from '../types/rate-limit.types';
+
+interface TokenBucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+// INTERVAL FOR REMOVING BUCKETS OF IDLE CLIENTS
+const PRUNE_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Token bucket rate limiter with one bucket per client and budget
+ * A bucket holds up to `capacity` tokens and refills completely within `windowSeconds`, every request consumes one token
+ */
+@Injectable()
+export class RateLimitService implements OnModuleInit, OnModuleDestroy {
+  private readonly _logger = new Logger(RateLimitService.name);
+  private readonly _policies: Record<RateLimitBudget, RateLimitPolicy> = {
+    submit: this._parsePolicy(process.env.RATE_LIMIT_SUBMIT || '10/60'),
+    status: this._parsePolicy(process.env.RATE_LIMIT_STATUS || '120/60'),
+  };
+  private _buckets = new Map<string, TokenBucket>();
+  private _pruneTimer: NodeJS.Timeout;
+
+  /**
+   * Starts the periodic removal of idle buckets
+   */
+  onModuleInit(): void {
+    this._pruneTimer = setInterval(
+      () => this._pruneBuckets(),
+      PRUNE_INTERVAL_MS,
+    );
+    this._pruneTimer.unref();
+  }
+
+  /**
+   * Stops the periodic removal of idle buckets
+   */
+  onModuleDestroy(): void {
+    clearInterval(this._pruneTimer);
+  }
+
+  /**
+   * Takes one token from the bucket of a client
+   * @param budget - The budget the request counts against
+   * @param clientId - Identifies the client, e.g. the API key name or the IP address
+   * @returns The outcome with the values for the `RateLimit-*` headers, undefined if the budget is disabled
+   */
+  consume(
+    budget: RateLimitBudget,
+    clientId: string,
+  ): RateLimitResult | undefined {
+    const policy = this._policies[budget];
+    if (!policy) return undefined;
+
+    const key = `${budget}:${clientId}`;
+    const now = Date.now();
+    const bucket = this._buckets.get(key) || {
+      tokens: policy.capacity,
+      updatedAt: now,
+    };
+
+    // REFILL TOKENS FOR THE TIME SINCE THE LAST REQUEST
+    const refillPerSecond = policy.capacity / policy.windowSeconds;
+    bucket.tokens = Math.min(
+      policy.capacity,
+      bucket.tokens + ((now - bucket.updatedAt) / 1000) * refillPerSecond,
+    );
+    bucket.updatedAt = now;
+
+    const allowed = bucket.tokens >= 1;
+    if (allowed) bucket.tokens -= 1;
+    this._buckets.set(key, bucket);
+
+    return {
+      allowed,
+      policy,
+      remaining: Math.floor(bucket.tokens),
+      resetSeconds: Math.ceil(
+        (policy.capacity - bucket.tokens) / refillPerSecond,
+      ),
+      retryAfterSeconds: allowed
+        ? 0
+        : Math.ceil((1 - bucket.tokens) / refillPerSecond),
+    };
+  }
+
+  /**
+   * Removes buckets that are completely refilled, they behave like new buckets
+   * @private
+   */
+  private _pruneBuckets(): void {
+    const now = Date.now();
+
+    for (const [key, bucket] of this._buckets) {
+      const budget = key.slice(0, key.indexOf(':')) as RateLimitBudget;
+      const policy = this._policies[budget];
+      const refilledAt =
+        bucket.updatedAt +
+        ((policy.capacity - bucket.tokens) / policy.capacity) *
+          policy.windowSeconds *
+          1000;
+      if (refilledAt <= now) this._buckets.delete(key);
+    }
+  }
+
+  /**
+   * Parses a rate limit policy
+   * @param value - `<requests>/<seconds>`, `0` disables the limit
+   * @returns The policy, or undefined if the limit is disabled
+   * @throws {Error} When the value is malformed
+   * @private
+   */
+  private _parsePolicy(value: string): RateLimitPolicy | undefined {
+    if (value.trim() === '0') return undefined;
+
+    const match = /^(\d+)\/(\d+)$/.exec(value.trim());
+    if (!match || parseInt(match[1], 10) < 1 || parseInt(match[2], 10) < 1) {
+      throw new Error(
+        `Invalid rate limit "${value}", expected <requests>/<seconds>`,
+      );
+    }
+
+    const policy: RateLimitPolicy = {
+      capacity: parseInt(match[1], 10),
+      windowSeconds: parseInt(match[2], 10),
+    };
+    this._logger.debug(
+      `Rate limit: ${policy.capacity} requests per ${policy.windowSeconds}s`,
+    );
+    return policy;
+  }
+}
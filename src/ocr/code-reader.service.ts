@@ -1,8 +1,11 @@
 import { Injectable, Logger } from '@nestjs/common';
-import { scanImageData, ZBarSymbol } from '@undecaf/zbar-wasm';
-import Jimp from 'jimp';
-import { DimensionData, DataContent } from '../types/ocr.types';
+import { join } from 'path';
+import { CodeScanResult, DimensionData, DataContent } from '../types/ocr.types';
 import { nanoid } from '../types/nanoid.function';
+import { runWorker } from '../types/run-worker.function';
+
+// COMPILED NEXT TO THIS FILE
+const WORKER_SCRIPT = join(__dirname, 'code-reader.worker.js');
 
 @Injectable()
 export class CodeReaderService {
@@ -13,31 +16,27 @@ export class CodeReaderService {
   }
 
   /**
-   * Scans an image file for barcodes and QR codes using ZBar WASM
+   * Scans an image file for barcodes and QR codes using ZBar WASM in a worker thread
    * @param filePath - Path to the image file to scan
-   * @returns Promise resolving to array of detected codes
+   * @param signal - Optional signal to abort the scan, terminates the worker thread
+   * @returns Promise resolving to the image size and the detected codes
+   * @throws {Error} When the scan fails or was aborted
    */
-  async scan(filePath: string): Promise<ZBarSymbol[]> {
+  async scan(filePath: string, signal?: AbortSignal): Promise<CodeScanResult> {
     try {
-      // READ AND DECODE IMAGE WITH JIMP
-      const image = await Jimp.read(filePath);
-
-      // CONVERT TO IMAGEDATA FORMAT EXPECTED BY ZBAR
-      const imageData = {
-        data: new Uint8ClampedArray(image.bitmap.data),
-        width: image.bitmap.width,
-        height: image.bitmap.height,
-      };
-
-      // SCAN IMAGE WITH ZBAR WASM
-      const symbols = await scanImageData(imageData);
+      const result = await runWorker<CodeScanResult>(
+        WORKER_SCRIPT,
+        { filePath },
+        signal,
+      );
 
       this._logger.debug(
-        `ZBar scan completed: found ${symbols.length} symbols`,
+        `ZBar scan completed: found ${result.symbols.length} symbols`,
       );
 
-      return symbols;
+      return result;
     } catch (error) {
+      if (signal?.aborted) throw error;
       this._logger.warn(`ZBar scan failed: ${error.message}`);
       throw new Error(`ZBar scan failed: ${error.message}`);
     }
@@ -46,36 +45,30 @@ export class CodeReaderService {
   /**
    * Scans an image file and returns normalized code detection results
    * @param filePath - Path to the image file to scan
+   * @param signal - Optional signal to abort the scan, terminates the worker thread
    * @returns Promise resolving to array of normalized code results with coordinates between 0-1
+   * @throws {Error} When scanning fails or was aborted
    */
   async processImage(
     filePath: string,
+    signal?: AbortSignal,
   ): Promise<DimensionData<DataContent>[]> {
     try {
-      // READ IMAGE TO GET DIMENSIONS
-      const image = await Jimp.read(filePath);
-      const imageWidth = image.bitmap.width;
-      const imageHeight = image.bitmap.height;
-
-      // SCAN FOR CODES
-      const symbols = await this.scan(filePath);
+      const {
+        width: imageWidth,
+        height: imageHeight,
+        symbols,
+      } = await this.scan(filePath, signal);
 
       // CONVERT TO NORMALIZED FORMAT
       const codes = symbols.map((symbol) => {
-        const points = symbol.points || [];
-        const xs = points.map((p) => p.x);
-        const ys = points.map((p) => p.y);
+        const xs = symbol.points.map((p) => p.x);
+        const ys = symbol.points.map((p) => p.y);
         const left = Math.min(...xs) / imageWidth; // NORMALIZE TO 0-1
         const top = Math.min(...ys) / imageHeight; // NORMALIZE TO 0-1
         const width = (Math.max(...xs) - Math.min(...xs)) / imageWidth; // NORMALIZE TO 0-1
         const height = (Math.max(...ys) - Math.min(...ys)) / imageHeight; // NORMALIZE TO 0-1
 
-        // CONVERT Int8Array TO STRING
-        const content =
-          typeof symbol.data === 'string'
-            ? symbol.data
-            : new TextDecoder().decode(symbol.data);
-
         return {
           left,
           top,
@@ -83,7 +76,7 @@ export class CodeReaderService {
           height,
           data: {
             id: nanoid(),
-            content,
+            content: symbol.content,
             type: symbol.typeName.toUpperCase(),
           },
         };
@@ -95,6 +88,7 @@ export class CodeReaderService {
 
       return codes;
     } catch (error) {
+      if (signal?.aborted) throw error;
       this._logger.warn(
         `Code scanning and normalization failed: ${error.message}`,
       );
@@ -0,0 +1,40 @@
+import { parentPort, workerData } from 'worker_threads';
+import { scanImageData } from '@undecaf/zbar-wasm';
+import Jimp from 'jimp';
+import { CodeScanResult } from '../types/ocr.types';
+
+// SCANS ONE IMAGE FOR CODES IN A WORKER THREAD, SO A RUNNING SCAN CAN BE STOPPED WHEN ITS JOB IS CANCELLED
+
+/**
+ * Decodes an image file and scans it with ZBar WASM
+ * @param filePath - Path to the image file to scan
+ * @returns Promise resolving to the image size and the detected codes, with coordinates in pixels
+ */
+async function scanFile(filePath: string): Promise<CodeScanResult> {
+  const image = await Jimp.read(filePath);
+  const { width, height, data } = image.bitmap;
+
+  const symbols = await scanImageData({
+    data: new Uint8ClampedArray(data),
+    width,
+    height,
+  });
+
+  return {
+    width,
+    height,
+    symbols: symbols.map((symbol) => ({
+      typeName: symbol.typeName,
+      // CONVERT Int8Array TO STRING
+      content:
+        typeof symbol.data === 'string'
+          ? symbol.data
+          : new TextDecoder().decode(symbol.data),
+      points: (symbol.points || []).map(({ x, y }) => ({ x, y })),
+    })),
+  };
+}
+
+void scanFile(workerData.filePath).then((result) =>
+  parentPort.postMessage(result),
+);
@@ -0,0 +1,83 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  Put,
+} from '@nestjs/common';
+import { Admin } from '../common/api-key.decorators';
+import { RateLimit } from '../common/rate-limit.decorator';
+import { FormTemplateService } from './form-template.service';
+import { FormTemplate, FormTemplateInput } from '../types/form-template.types';
+
+@Controller('ocr/templates')
+export class FormTemplateController {
+  constructor(private readonly _formTemplateService: FormTemplateService) {}
+
+  /**
+   * Lists all registered form templates
+   * @returns Array of all templates
+   */
+  @RateLimit('status')
+  @Get()
+  listTemplates(): FormTemplate[] {
+    return this._formTemplateService.list();
+  }
+
+  /**
+   * Gets a form template
+   * @param templateId - The unique template identifier
+   * @returns The template
+   * @throws {NotFoundException} When the template is unknown
+   */
+  @RateLimit('status')
+  @Get(':templateId')
+  getTemplate(@Param('templateId') templateId: string): FormTemplate {
+    return this._formTemplateService.get(templateId);
+  }
+
+  /**
+   * Registers a new form template
+   * @param body - Name, description and fields of the template
+   * @returns The created template including its ID
+   * @throws {BadRequestException} When the template is invalid
+   */
+  @Admin()
+  @Post()
+  createTemplate(@Body() body: FormTemplateInput): FormTemplate {
+    return this._formTemplateService.create(body);
+  }
+
+  /**
+   * Replaces name, description and fields of a form template
+   * @param templateId - The unique template identifier
+   * @param body - New name, description and fields of the template
+   * @returns The updated template
+   * @throws {NotFoundException} When the template is unknown
+   * @throws {BadRequestException} When the template is invalid
+   */
+  @Admin()
+  @Put(':templateId')
+  updateTemplate(
+    @Param('templateId') templateId: string,
+    @Body() body: FormTemplateInput,
+  ): FormTemplate {
+    return this._formTemplateService.update(templateId, body);
+  }
+
+  /**
+   * Removes a form template
+   * @param templateId - The unique template identifier
+   * @throws {NotFoundException} When the template is unknown
+   */
+  @Admin()
+  @Delete(':templateId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  deleteTemplate(@Param('templateId') templateId: string): void {
+    this._formTemplateService.delete(templateId);
+  }
+}
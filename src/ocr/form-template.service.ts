@@ -0,0 +1,510 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { existsSync, readFileSync, promises as fs } from 'fs';
+import { PageExtractorService } from './page-extractor.service';
+import { nanoid } from '../types/nanoid.function';
+import {
+  FormFieldContent,
+  FormFieldDefinition,
+  FormFieldType,
+  FormTemplate,
+  FormTemplateInput,
+} from '../types/form-template.types';
+import { DimensionData, OcrPageResult } from '../types/ocr.types';
+import { filterLayoutWords } from '../types/parse-tsv-output.function';
+import { parseDate, parseNumber } from '../types/parse-field-value.function';
+import { rectanglesOverlap } from '../types/rectangles-overlap.function';
+import { reconstructText } from '../types/reconstruct-text.function';
+import { getZoneError } from '../types/validate-zone.function';
+import { matchPattern } from '../types/match-pattern.function';
+
+const FIELD_TYPES: FormFieldType[] = [
+  'text',
+  'date',
+  'number',
+  'checkbox',
+  'barcode',
+];
+
+// LONGER PATTERNS ARE REJECTED, FIELD PATTERNS ONLY NEED TO SELECT A PART OF A SHORT TEXT
+const MAX_PATTERN_LENGTH = 200;
+
+// SHARE OF DARK PIXELS ABOVE WHICH A CHECKBOX COUNTS AS TICKED
+const CHECKBOX_FILL_THRESHOLD = 0.1;
+
+// SHARE OF THE CHECKBOX ZONE IGNORED ON EACH SIDE, SO THE PRINTED BOX BORDER IS NOT COUNTED AS A TICK
+const CHECKBOX_BORDER_INSET = 0.2;
+
+@Injectable()
+export class FormTemplateService {
+  private readonly _logger = new Logger(FormTemplateService.name);
+  private readonly _file = process.env.FORM_TEMPLATES_FILE;
+  private _templates = new Map<string, FormTemplate>();
+  private _write: Promise<void> = Promise.resolve();
+
+  constructor(private readonly _pageExtractorService: PageExtractorService) {
+    this._load();
+  }
+
+  /**
+   * Lists all registered form templates
+   * @returns Array of all templates
+   */
+  list(): FormTemplate[] {
+    return [...this._templates.values()];
+  }
+
+  /**
+   * Finds a form template
+   * @param templateId - The unique template identifier
+   * @returns The template, or undefined if it is unknown
+   */
+  find(templateId: string): FormTemplate | undefined {
+    return this._templates.get(templateId);
+  }
+
+  /**
+   * Gets a form template
+   * @param templateId - The unique template identifier
+   * @returns The template
+   * @throws {NotFoundException} When the template is unknown
+   */
+  get(templateId: string): FormTemplate {
+    const template = this._templates.get(templateId);
+    if (!template) {
+      throw new NotFoundException(`Template ${templateId} not found`);
+    }
+    return template;
+  }
+
+  /**
+   * Registers a new form template
+   * @param input - Name, description and fields of the template
+   * @returns The created template
+   * @throws {BadRequestException} When the template is invalid
+   */
+  create(input: FormTemplateInput): FormTemplate {
+    this._assertTemplate(input);
+
+    const now = new Date();
+    const template: FormTemplate = {
+      id: nanoid(),
+      name: input.name,
+      description: input.description,
+      fields: input.fields,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this._templates.set(template.id, template);
+    this._persist();
+
+    this._logger.debug(`Form template created: ${template.id}`);
+    return template;
+  }
+
+  /**
+   * Replaces name, description and fields of a form template
+   * Jobs that are already queued keep the version they were submitted with
+   * @param templateId - The unique template identifier
+   * @param input - New name, description and fields of the template
+   * @returns The updated template
+   * @throws {NotFoundException} When the template is unknown
+   * @throws {BadRequestException} When the template is invalid
+   */
+  update(templateId: string, input: FormTemplateInput): FormTemplate {
+    const existing = this.get(templateId);
+    this._assertTemplate(input);
+
+    const template: FormTemplate = {
+      ...existing,
+      name: input.name,
+      description: input.description,
+      fields: input.fields,
+      updatedAt: new Date(),
+    };
+    this._templates.set(templateId, template);
+    this._persist();
+
+    return template;
+  }
+
+  /**
+   * Removes a form template
+   * @param templateId - The unique template identifier
+   * @throws {NotFoundException} When the template is unknown
+   */
+  delete(templateId: string): void {
+    this.get(templateId);
+    this._templates.delete(templateId);
+    this._persist();
+  }
+
+  /**
+   * Extracts the fields of a form template from the OCR results of a document
+   * @param template - The form template
+   * @param pages - OCR results of all pages, including their layout
+   * @param pagePaths - Paths to the page images, used for checkbox fields
+   * @param signal - Optional signal to abort reading the page images
+   * @returns Promise resolving to the extracted fields by name, positioned at the words or code the value was read from
+   * @throws {Error} When the signal fired
+   */
+  async extractFields(
+    template: FormTemplate,
+    pages: OcrPageResult[],
+    pagePaths: string[],
+    signal?: AbortSignal,
+  ): Promise<Record<string, DimensionData<FormFieldContent>>> {
+    const fields: Record<string, DimensionData<FormFieldContent>> = {};
+
+    for (const field of template.fields) {
+      const pageNumber = field.page || 1;
+      const page = pages[pageNumber - 1];
+      if (!page) {
+        fields[field.name] = this._createEmptyField(field);
+        continue;
+      }
+
+      if (field.type === 'barcode') {
+        fields[field.name] = this._extractBarcodeField(field, page);
+      } else if (field.type !== 'checkbox') {
+        fields[field.name] = this._extractTextField(field, page);
+      }
+    }
+
+    // CHECKBOXES NEED THE PAGE IMAGE, DECODE EVERY PAGE ONLY ONCE
+    for (const [index, pagePath] of pagePaths.entries()) {
+      const checkboxes = template.fields.filter(
+        (field) => field.type === 'checkbox' && (field.page || 1) === index + 1,
+      );
+      if (checkboxes.length === 0) continue;
+
+      const ratios = await this._pageExtractorService
+        .getDarkPixelRatios(
+          pagePath,
+          checkboxes.map((field) => ({
+            left: field.left + field.width * CHECKBOX_BORDER_INSET,
+            top: field.top + field.height * CHECKBOX_BORDER_INSET,
+            width: field.width * (1 - 2 * CHECKBOX_BORDER_INSET),
+            height: field.height * (1 - 2 * CHECKBOX_BORDER_INSET),
+          })),
+          signal,
+        )
+        .catch((error): number[] => {
+          if (signal?.aborted) throw error;
+          this._logger.warn(`Checkbox detection failed: ${error.message}`);
+          return [];
+        });
+
+      checkboxes.forEach((field, fieldIndex) => {
+        const ratio = ratios[fieldIndex];
+        if (ratio === undefined) return;
+
+        fields[field.name] = {
+          ...this._getZone(field),
+          data: {
+            type: 'checkbox',
+            value: ratio >= CHECKBOX_FILL_THRESHOLD,
+            text: '',
+            confidence: this._round(
+              Math.min(
+                1,
+                Math.abs(ratio - CHECKBOX_FILL_THRESHOLD) /
+                  CHECKBOX_FILL_THRESHOLD,
+              ),
+            ),
+            pageNumber: index + 1,
+          },
+        };
+      });
+    }
+
+    // LIST FIELDS IN TEMPLATE ORDER, FIELDS THAT COULD NOT BE READ ARE LISTED WITHOUT A VALUE
+    return Object.fromEntries(
+      template.fields.map((field) => [
+        field.name,
+        fields[field.name] || this._createEmptyField(field),
+      ]),
+    );
+  }
+
+  /**
+   * Reads a text, date or number field from the words inside its zone
+   * @param field - The field definition
+   * @param page - OCR result of the page the field is on
+   * @returns The extracted field, without a value if no words or no match for the pattern were found
+   * @private
+   */
+  private _extractTextField(
+    field: FormFieldDefinition,
+    page: OcrPageResult,
+  ): DimensionData<FormFieldContent> {
+    const words = page.words.filter((word) => rectanglesOverlap(word, field));
+    if (words.length === 0) return this._createEmptyField(field);
+
+    const layout = filterLayoutWords(
+      page.layout || [],
+      new Set(words.map((word) => word.data.id)),
+    );
+    const text = reconstructText(words, layout).replace(/\s+/g, ' ').trim();
+
+    // THE PATTERN SELECTS THE RELEVANT PART OF THE TEXT, THE FIRST GROUP IF IT HAS ONE
+    let candidate: string | undefined = text;
+    if (field.pattern) {
+      const match = this._matchPattern(field, text);
+      candidate = match ? (match[1] ?? match[0]) : undefined;
+    }
+
+    let value: string | number | null = candidate ?? null;
+    if (candidate !== undefined && field.type === 'number') {
+      value = parseNumber(candidate);
+    } else if (candidate !== undefined && field.type === 'date') {
+      value = parseDate(candidate);
+    }
+
+    const confidences = words.map((word) => word.data.confidence ?? 0);
+    return {
+      ...this._getBoundingBox(words),
+      data: {
+        type: field.type,
+        value,
+        text,
+        confidence:
+          value === null
+            ? 0
+            : this._round(
+                confidences.reduce((sum, confidence) => sum + confidence, 0) /
+                  confidences.length,
+              ),
+        pageNumber: field.page || 1,
+      },
+    };
+  }
+
+  /**
+   * Reads a barcode field from the first code inside its zone that matches the pattern
+   * @param field - The field definition
+   * @param page - OCR result of the page the field is on
+   * @returns The extracted field, without a value if no matching code was found
+   * @private
+   */
+  private _extractBarcodeField(
+    field: FormFieldDefinition,
+    page: OcrPageResult,
+  ): DimensionData<FormFieldContent> {
+    const code = page.codes.find(
+      (candidate) =>
+        rectanglesOverlap(candidate, field) &&
+        (!field.pattern ||
+          this._matchPattern(field, candidate.data.content) !== null),
+    );
+    if (!code) return this._createEmptyField(field);
+
+    // DECODED CODES CARRY A CHECKSUM, THEIR CONTENT IS EITHER READ CORRECTLY OR NOT AT ALL
+    return {
+      left: code.left,
+      top: code.top,
+      width: code.width,
+      height: code.height,
+      data: {
+        type: 'barcode',
+        value: code.data.content,
+        text: code.data.content,
+        confidence: 1,
+        pageNumber: field.page || 1,
+      },
+    };
+  }
+
+  /**
+   * Applies the pattern of a field, a pattern that runs too long counts as no match
+   * @param field - The field definition with a pattern
+   * @param text - The text to search
+   * @returns The whole match followed by the capture groups, or null if the pattern does not match
+   * @private
+   */
+  private _matchPattern(
+    field: FormFieldDefinition,
+    text: string,
+  ): string[] | null {
+    try {
+      return matchPattern(field.pattern, text);
+    } catch (error) {
+      this._logger.warn(`Field ${field.name}: ${error.message}`);
+      return null;
+    }
+  }
+
+  /**
+   * Creates the result of a field without a value, positioned at its zone
+   * @param field - The field definition
+   * @returns The field result
+   * @private
+   */
+  private _createEmptyField(
+    field: FormFieldDefinition,
+  ): DimensionData<FormFieldContent> {
+    return {
+      ...this._getZone(field),
+      data: {
+        type: field.type,
+        value: null,
+        text: '',
+        confidence: 0,
+        pageNumber: field.page || 1,
+      },
+    };
+  }
+
+  /**
+   * Gets the zone of a field
+   * @param field - The field definition
+   * @returns The zone without any other field properties
+   * @private
+   */
+  private _getZone(field: FormFieldDefinition): DimensionData {
+    return {
+      left: field.left,
+      top: field.top,
+      width: field.width,
+      height: field.height,
+    };
+  }
+
+  /**
+   * Calculates the smallest rectangle containing all given elements
+   * @param elements - Non-empty array of elements
+   * @returns The bounding box
+   * @private
+   */
+  private _getBoundingBox(elements: DimensionData<unknown>[]): DimensionData {
+    const left = Math.min(...elements.map((element) => element.left));
+    const top = Math.min(...elements.map((element) => element.top));
+    const right = Math.max(
+      ...elements.map((element) => element.left + element.width),
+    );
+    const bottom = Math.max(
+      ...elements.map((element) => element.top + element.height),
+    );
+    return { left, top, width: right - left, height: bottom - top };
+  }
+
+  /**
+   * Rounds a confidence score to two decimal places
+   * @param value - The confidence score
+   * @returns The rounded score
+   * @private
+   */
+  private _round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+
+  /**
+   * Validates a form template submitted by a client
+   * @param input - The template to validate
+   * @throws {BadRequestException} When the name or a field is invalid
+   * @private
+   */
+  private _assertTemplate(input: FormTemplateInput): void {
+    if (typeof input?.name !== 'string' || !input.name.trim()) {
+      throw new BadRequestException('Template name is required');
+    }
+    if (
+      input.description !== undefined &&
+      typeof input.description !== 'string'
+    ) {
+      throw new BadRequestException('Template description must be a string');
+    }
+    if (!Array.isArray(input.fields) || input.fields.length === 0) {
+      throw new BadRequestException('fields must be a non-empty array');
+    }
+
+    const names = new Set<string>();
+    input.fields.forEach((field, index) => {
+      const name = `fields[${index}]`;
+      const zoneError = getZoneError(field, name);
+      if (zoneError) {
+        throw new BadRequestException(zoneError);
+      }
+
+      if (typeof field.name !== 'string' || !field.name) {
+        throw new BadRequestException(`${name}.name is required`);
+      }
+      if (names.has(field.name)) {
+        throw new BadRequestException(`Duplicate field name: ${field.name}`);
+      }
+      names.add(field.name);
+
+      if (!FIELD_TYPES.includes(field.type)) {
+        throw new BadRequestException(
+          `${name}.type must be: ${FIELD_TYPES.join(', ')}`,
+        );
+      }
+
+      if (field.pattern !== undefined) {
+        if (
+          typeof field.pattern !== 'string' ||
+          field.pattern.length > MAX_PATTERN_LENGTH
+        ) {
+          throw new BadRequestException(
+            `${name}.pattern must be a string of at most ${MAX_PATTERN_LENGTH} characters`,
+          );
+        }
+        try {
+          new RegExp(field.pattern);
+        } catch {
+          throw new BadRequestException(
+            `${name}.pattern is not a valid regular expression`,
+          );
+        }
+      }
+    });
+  }
+
+  /**
+   * Loads the templates from the file in `FORM_TEMPLATES_FILE`, if configured
+   * @throws {Error} When the file exists but cannot be parsed
+   * @private
+   */
+  private _load(): void {
+    if (!this._file || !existsSync(this._file)) return;
+
+    const templates: FormTemplate[] = JSON.parse(
+      readFileSync(this._file, 'utf8'),
+    );
+    for (const template of templates) {
+      // RESTORE DATE FIELDS FROM THEIR JSON REPRESENTATION
+      template.createdAt = new Date(template.createdAt);
+      template.updatedAt = new Date(template.updatedAt);
+      this._templates.set(template.id, template);
+    }
+
+    this._logger.log(
+      `Loaded ${this._templates.size} form templates from ${this._file}`,
+    );
+  }
+
+  /**
+   * Writes all templates to the file in `FORM_TEMPLATES_FILE` in the background, if configured
+   * Writes are chained so that the file always ends up with the latest state
+   * @private
+   */
+  private _persist(): void {
+    if (!this._file) return;
+
+    const content = JSON.stringify(this.list(), null, 2);
+    this._write = this._write
+      .then(async () => {
+        await fs.writeFile(`${this._file}.tmp`, content);
+        await fs.rename(`${this._file}.tmp`, this._file);
+      })
+      .catch((error) => {
+        this._logger.error(
+          `Failed to persist form templates: ${error.message}`,
+        );
+      });
+  }
+}
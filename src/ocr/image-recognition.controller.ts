@@ -2,7 +2,9 @@ import {
   BadRequestException,
   Body,
   Controller,
+  Delete,
   Get,
+  Headers,
   HttpCode,
   HttpStatus,
   Logger,
@@ -10,19 +12,68 @@ import {
   Post,
   Query,
   Req,
+  Res,
   ServiceUnavailableException,
   Sse,
+  StreamableFile,
+  UnprocessableEntityException,
   UploadedFile,
   UseInterceptors,
 } from '@nestjs/common';
 import { FileInterceptor } from '@nestjs/platform-express';
 import { VersionService } from '../common/version.service';
+import { ApiKeyService } from '../common/api-key.service';
+import { Admin, ApiKey, Public } from '../common/api-key.decorators';
+import { RateLimit } from '../common/rate-limit.decorator';
 import { ImageRecognitionService } from './image-recognition.service';
+import { LanguagePackService } from './language-pack.service';
 import { Express } from 'express';
 import 'multer';
 import { Observable } from 'rxjs';
-import { ReturnStrategy } from '../types/return-strategy.types';
-import { Request } from 'express';
+import { JobStatus, ReturnStrategy } from '../types/return-strategy.types';
+import {
+  OcrRegion,
+  OutputFormat,
+  TesseractParameters,
+} from '../types/ocr.types';
+import { PreprocessingStep } from '../types/preprocessing.types';
+import { ApiKeyConfig } from '../types/api-key.types';
+import { getZoneError } from '../types/validate-zone.function';
+import { Request, Response } from 'express';
+
+// SECONDS A CLIENT SHOULD WAIT BEFORE RETRYING WHEN THE QUEUE IS FULL
+const QUEUE_RETRY_AFTER_SECONDS = 30;
+
+const OUTPUT_FORMATS: OutputFormat[] = ['json', 'hocr', 'alto', 'pdf'];
+
+const PREPROCESSING_STEPS: PreprocessingStep[] = [
+  'upscale',
+  'grayscale',
+  'normalize',
+  'denoise',
+  'binarize',
+];
+
+// TESSERACT PAGE SEGMENTATION MODES ARE NUMBERED 0 TO 13, ENGINE MODES 0 TO 3
+const MAX_PSM = 13;
+const MAX_OEM = 3;
+
+// RESOLUTION RANGE TESSERACT ACCEPTS FOR `--dpi`
+const MIN_DPI = 70;
+const MAX_DPI = 2400;
+
+// CONFIG VARIABLES CLIENTS MAY SET, VARIABLES THAT WRITE FILES OR CHANGE THE OUTPUT FORMAT ARE EXCLUDED
+const TESSERACT_VARIABLES = [
+  'load_system_dawg',
+  'load_freq_dawg',
+  'tessedit_do_invert',
+  'textord_heavy_nr',
+  'textord_min_linesize',
+  'textord_tabfind_find_tables',
+  'classify_bln_numeric_mode',
+  'thresholding_method',
+  'lstm_choice_mode',
+];
 
 @Controller('ocr')
 export class ImageRecognitionController {
@@ -31,19 +82,23 @@ export class ImageRecognitionController {
   constructor(
     private readonly _ocrService: ImageRecognitionService,
     private readonly _versionService: VersionService,
+    private readonly _apiKeyService: ApiKeyService,
+    private readonly _languagePackService: LanguagePackService,
   ) {}
 
   /**
    * Gets the current status of the OCR service
-   * @returns Service status information including version, processing state, and runtime info
+   * @returns Service status information including version, worker states, queue length, and runtime info
    */
+  @Public()
   @Get('status')
   getStatus() {
     return {
       service: 'tesseract-api',
       version: this._versionService.getVersion(),
       status: 'ready',
-      processing: this._ocrService.isProcessing(),
+      workers: this._ocrService.getWorkers(),
+      queued: this._ocrService.getQueueLength(),
       runtime: this._versionService.getRuntimeInfo(),
     };
   }
@@ -52,6 +107,7 @@ export class ImageRecognitionController {
    * Gets version and runtime information
    * @returns Runtime information including Node.js version and system details
    */
+  @Public()
   @Get('version')
   getVersion() {
     return this._versionService.getRuntimeInfo();
@@ -61,55 +117,75 @@ export class ImageRecognitionController {
    * Gets debug information from the OCR service
    * @returns Debug information including Tesseract configuration and system state
    */
+  @Admin()
   @Get('debug')
   async getDebugInfo() {
     return this._ocrService.getDebugInfo();
   }
 
   /**
-   * Processes an uploaded image file for OCR text extraction
-   * @param file - The uploaded image file (JPEG/PNG, max 10MB)
+   * Processes an uploaded image or PDF file for OCR text extraction
+   * @param file - The uploaded image or PDF file (JPEG/PNG/TIFF/PDF, max 10MB)
    * @param body
-   * @returns Job information with appropriate URLs based on return strategy
-   * @throws {BadRequestException} When file is missing, invalid format, too large, or service is busy
+   * @param res - The response, used to set the `Retry-After` header and the status of sync responses
+   * @param apiKey - The API key of the request, undefined if authentication is disabled
+   * @returns Job information with appropriate URLs based on return strategy, the OCR result for the sync strategy
+   * @throws {BadRequestException} When file is missing, invalid format or too large, or the form template is unknown
+   * @throws {PayloadTooLargeException} When the file exceeds the size limit of the API key
+   * @throws {HttpException} With status 429 when the daily job quota of the API key is used up
+   * @throws {ServiceUnavailableException} When the job queue is full
+   * @throws {UnprocessableEntityException} When a job with the sync strategy fails
    */
+  @RateLimit('submit')
   @Post('process')
   @HttpCode(HttpStatus.ACCEPTED)
   @UseInterceptors(FileInterceptor('image'))
   async processImage(
     @UploadedFile() file: Express.Multer.File,
     @Body() body?: {body: string},
+    @Res({ passthrough: true }) res?: Response,
+    @ApiKey() apiKey?: ApiKeyConfig,
   ) {
     if (!file) {
       throw new BadRequestException('No image file provided');
     }
 
-    if (!file.mimetype.startsWith('image/')) {
-      throw new BadRequestException('File must be an image');
+    if (
+      !file.mimetype.startsWith('image/') &&
+      file.mimetype !== 'application/pdf'
+    ) {
+      throw new BadRequestException('File must be an image or PDF');
     }
 
     if (file.size > 10 * 1024 * 1024) {
       throw new BadRequestException('File size must be less than 10MB');
     }
 
-    if (this._ocrService.isProcessing()) {
-      throw new ServiceUnavailableException(
-        'OCR service is busy processing another request',
-      );
-    }
-
     const parsedBody: {
       returnStrategy?: ReturnStrategy;
       webhookUrl?: string;
       callbackHeaders?: Record<string, string>;
+      webhookKeyId?: string;
       language?: string;
+      languages?: string[];
+      layout?: boolean;
+      markdown?: boolean;
+      outputFormat?: OutputFormat;
+      regions?: OcrRegion[];
+      templateId?: string;
+      preprocessing?: PreprocessingStep[];
+      autoRotate?: boolean;
+      originalCoordinates?: boolean;
+      tesseract?: TesseractParameters;
     } = JSON.parse(body.body || '{}');
 
     // VALIDATE RETURN STRATEGY
-    if (!['sse', 'webhook', 'polling'].includes(parsedBody.returnStrategy)) {
+    if (
+      !['sse', 'webhook', 'polling', 'sync'].includes(parsedBody.returnStrategy)
+    ) {
       this._logger.error('Invalid return strategy: ', parsedBody);
       throw new BadRequestException(
-        'Invalid return strategy. Must be: sse, webhook, or polling',
+        'Invalid return strategy. Must be: sse, webhook, polling, or sync',
       );
     }
 
@@ -120,17 +196,63 @@ export class ImageRecognitionController {
       );
     }
 
-    const jobId = await this._ocrService.startImageRecognitionOnBuffer(
+    this._assertOutputFormat(parsedBody.outputFormat);
+    this._assertRegions(parsedBody.regions, parsedBody.outputFormat);
+    this._assertPreprocessing(parsedBody.preprocessing);
+    this._assertLanguages(parsedBody.language, parsedBody.languages);
+    this._assertTesseractParameters(parsedBody.tesseract);
+    await this._assertLanguagesInstalled(
+      parsedBody.language,
+      parsedBody.languages,
+      parsedBody.regions,
+    );
+    this._apiKeyService.assertJobAllowed(
+      apiKey,
+      file.size,
+      parsedBody.language || 'deu',
+      parsedBody.languages,
+      this._getRegionLanguages(parsedBody.regions),
+    );
+
+    const started = this._ocrService.startImageRecognitionOnBuffer(
       file.buffer,
       parsedBody.returnStrategy,
       parsedBody.webhookUrl,
       parsedBody?.callbackHeaders,
-      parsedBody?.language,
+      {
+        language: parsedBody?.language,
+        languages: this._apiKeyService.getDetectionLanguages(
+          apiKey,
+          parsedBody?.languages,
+        ),
+        layout: parsedBody?.layout === true,
+        markdown: parsedBody?.markdown === true,
+        outputFormat: parsedBody?.outputFormat,
+        regions: parsedBody?.regions,
+        templateId: parsedBody?.templateId,
+        preprocessing: parsedBody?.preprocessing,
+        autoRotate: parsedBody?.autoRotate === true,
+        originalCoordinates: parsedBody?.originalCoordinates === true,
+        tesseract: parsedBody?.tesseract,
+      },
+      parsedBody?.webhookKeyId,
+      apiKey?.name,
+    );
+    const jobId = await started.catch((error) =>
+      this._rethrowWithRetryAfter(error, res),
     );
+    this._apiKeyService.recordJob(apiKey, file.size);
 
+    if (parsedBody.returnStrategy === 'sync') {
+      return this._awaitSyncResult(jobId, res);
+    }
+
+    const jobStatus = this._ocrService.getJobStatus(jobId);
     const response: any = {
       jobId,
       message: 'OCR processing started',
+      status: jobStatus.status,
+      queuePosition: jobStatus.queuePosition,
       returnStrategy: parsedBody.returnStrategy,
     };
 
@@ -154,55 +276,551 @@ export class ImageRecognitionController {
   /**
    * Processes raw image buffer data for OCR text extraction
    * @returns Job information with appropriate URLs based on return strategy
-   * @throws {BadRequestException} When buffer is empty, too large, invalid format, or service is busy
+   * @throws {ServiceUnavailableException} When the job queue is full
+   * @throws {UnprocessableEntityException} When a job with the sync strategy fails
    * @param body
    * @param req
+   * @param res - The response, used to set the `Retry-After` header and the status of sync responses
+   * @param apiKey - The API key of the request, undefined if authentication is disabled
    */
+  @RateLimit('submit')
   @Post('process-buffer')
   @HttpCode(HttpStatus.ACCEPTED)
   async processBuffer(
     @Body() body: any,
-    @Req() req: Request
+    @Req() req: Request,
+    @Res({ passthrough: true }) res: Response,
+    @ApiKey() apiKey?: ApiKeyConfig,
   ) {
     const { image, options } = body;
 
+    this._assertOutputFormat(options.outputFormat);
+    this._assertRegions(options.regions, options.outputFormat);
+    this._assertPreprocessing(options.preprocessing);
+    this._assertLanguages(options.language, options.languages);
+    this._assertTesseractParameters(options.tesseract);
+    await this._assertLanguagesInstalled(
+      options.language,
+      options.languages,
+      options.regions,
+    );
+
     this._logger.log(`Received image for OCR. Decoding buffer...`);
 
     // CONVERT BASE64 BACK TO BUFFER
     const buffer = Buffer.from(image, 'base64');
+    this._apiKeyService.assertJobAllowed(
+      apiKey,
+      buffer.length,
+      options.language || 'deu',
+      options.languages,
+      this._getRegionLanguages(options.regions),
+    );
 
     // COMPLETE WEBHOOK URL
     const fullWebhookUrl = body.options.webhookUrl ?
       `${req.protocol}://${req.ip}${body.options.webhookUrl}` : '';
 
-    return this._ocrService.startImageRecognitionOnBuffer(
+    const started = this._ocrService.startImageRecognitionOnBuffer(
       buffer,
       options.returnStrategy,
       fullWebhookUrl,
       options.callbackHeaders,
-      options.language,
+      {
+        language: options.language,
+        languages: this._apiKeyService.getDetectionLanguages(
+          apiKey,
+          options.languages,
+        ),
+        layout: options.layout === true,
+        markdown: options.markdown === true,
+        outputFormat: options.outputFormat,
+        regions: options.regions,
+        templateId: options.templateId,
+        preprocessing: options.preprocessing,
+        autoRotate: options.autoRotate === true,
+        originalCoordinates: options.originalCoordinates === true,
+        tesseract: options.tesseract,
+      },
+      options.webhookKeyId,
+      apiKey?.name,
     );
+    const jobId = await started.catch((error) =>
+      this._rethrowWithRetryAfter(error, res),
+    );
+    this._apiKeyService.recordJob(apiKey, buffer.length);
+
+    if (options.returnStrategy === 'sync') {
+      return this._awaitSyncResult(jobId, res);
+    }
+    return jobId;
   }
 
   /**
    * Provides Server-Sent Events stream for OCR processing progress
    * @param jobId - The unique job identifier for the OCR processing task
+   * @param lastEventId - ID of the last received event, sent by reconnecting clients
+   * @param apiKey - The API key of the request, undefined if authentication is disabled
    * @returns Observable stream of progress events for the specified job
    */
+  @RateLimit('status')
   @Sse('progress/:jobId')
-  getProgress(@Param('jobId') jobId: string): Observable<any> {
-    this._logger.debug(`SSE request for job ${jobId}`);
-    return this._ocrService.getProgressStream(jobId);
+  getProgress(
+    @Param('jobId') jobId: string,
+    @Headers('last-event-id') lastEventId?: string,
+    @ApiKey() apiKey?: ApiKeyConfig,
+  ): Observable<any> {
+    this._ocrService.assertJobAccess(jobId, apiKey);
+    this._logger.debug(
+      `SSE request for job ${jobId}${lastEventId ? ` after event ${lastEventId}` : ''}`,
+    );
+    return this._ocrService.getProgressStream(jobId, lastEventId);
   }
 
   /**
    * Gets the current status of a specific OCR processing job
    * @param jobId - The unique job identifier for the OCR processing task
+   * @param apiKey - The API key of the request, undefined if authentication is disabled
    * @returns Current job status including progress, completion state, and results if available
    */
+  @RateLimit('status')
   @Get('status/:jobId')
-  getJobStatus(@Param('jobId') jobId: string) {
+  getJobStatus(
+    @Param('jobId') jobId: string,
+    @ApiKey() apiKey?: ApiKeyConfig,
+  ) {
+    this._ocrService.assertJobAccess(jobId, apiKey);
     this._logger.debug(`Status request for job ${jobId}`);
     return this._ocrService.getJobStatus(jobId);
   }
+
+  /**
+   * Cancels a queued or running OCR processing job, a running Tesseract process is killed
+   * @param jobId - The unique job identifier for the OCR processing task
+   * @param apiKey - The API key of the request, undefined if authentication is disabled
+   * @returns The job status with status `cancelled`
+   * @throws {NotFoundException} When the job is unknown
+   * @throws {ConflictException} When the job has already finished, or finished before the cancellation took effect
+   */
+  @RateLimit('status')
+  @Delete('jobs/:jobId')
+  cancelJob(
+    @Param('jobId') jobId: string,
+    @ApiKey() apiKey?: ApiKeyConfig,
+  ): Promise<JobStatus> {
+    this._ocrService.assertJobAccess(jobId, apiKey);
+    this._logger.debug(`Cancel request for job ${jobId}`);
+    return this._ocrService.cancelJob(jobId);
+  }
+
+  /**
+   * Restarts the webhook delivery of a job whose automatic delivery attempts all failed
+   * @param jobId - The unique job identifier for the OCR processing task
+   * @param apiKey - The API key of the request, undefined if authentication is disabled
+   * @returns The job status including the webhook delivery log
+   * @throws {NotFoundException} When the job is unknown or has no webhook
+   * @throws {ConflictException} When the webhook has not failed
+   */
+  @RateLimit('submit')
+  @Post('jobs/:jobId/redeliver')
+  @HttpCode(HttpStatus.ACCEPTED)
+  redeliverWebhook(
+    @Param('jobId') jobId: string,
+    @ApiKey() apiKey?: ApiKeyConfig,
+  ) {
+    this._ocrService.assertJobAccess(jobId, apiKey);
+    this._logger.debug(`Webhook redelivery request for job ${jobId}`);
+    return this._ocrService.redeliverWebhook(jobId);
+  }
+
+  /**
+   * Downloads the hOCR or ALTO XML document of a completed job
+   * @param jobId - The unique job identifier for the OCR processing task
+   * @returns The XML document with the content type of its format
+   * @throws {NotFoundException} When the job is unknown or has no XML result
+   */
+  @RateLimit('status')
+  @Get('jobs/:jobId/result.xml')
+  async getXmlResult(
+    @Param('jobId') jobId: string,
+    @ApiKey() apiKey?: ApiKeyConfig,
+  ): Promise<StreamableFile> {
+    return this._getResultFile(jobId, 'xml', apiKey);
+  }
+
+  /**
+   * Downloads the searchable PDF (page images with invisible text layer) of a completed job
+   * @param jobId - The unique job identifier for the OCR processing task
+   * @returns The PDF document
+   * @throws {NotFoundException} When the job is unknown or has no PDF result
+   */
+  @RateLimit('status')
+  @Get('jobs/:jobId/result.pdf')
+  async getPdfResult(
+    @Param('jobId') jobId: string,
+    @ApiKey() apiKey?: ApiKeyConfig,
+  ): Promise<StreamableFile> {
+    return this._getResultFile(jobId, 'pdf', apiKey);
+  }
+
+  /**
+   * Downloads the reconstructed plain text of a completed job
+   * @param jobId - The unique job identifier for the OCR processing task
+   * @returns The text, pages are separated by a form feed
+   * @throws {NotFoundException} When the job is unknown or not completed
+   */
+  @RateLimit('status')
+  @Get('jobs/:jobId/result.txt')
+  async getTextResult(
+    @Param('jobId') jobId: string,
+    @ApiKey() apiKey?: ApiKeyConfig,
+  ): Promise<StreamableFile> {
+    return this._getResultFile(jobId, 'txt', apiKey);
+  }
+
+  /**
+   * Downloads the Markdown rendering of a completed job
+   * @param jobId - The unique job identifier for the OCR processing task
+   * @returns The Markdown document
+   * @throws {NotFoundException} When the job is unknown or not completed
+   */
+  @RateLimit('status')
+  @Get('jobs/:jobId/result.md')
+  async getMarkdownResult(
+    @Param('jobId') jobId: string,
+    @ApiKey() apiKey?: ApiKeyConfig,
+  ): Promise<StreamableFile> {
+    return this._getResultFile(jobId, 'md', apiKey);
+  }
+
+  /**
+   * Waits for a job submitted with the sync strategy and builds the response
+   * @param jobId - The unique job identifier
+   * @param res - The response, its status is set to 200 when the result is returned
+   * @returns The OCR result, or polling information if the job did not finish within the maximum wait time
+   * @throws {UnprocessableEntityException} When the job fails or is cancelled
+   * @private
+   */
+  private async _awaitSyncResult(jobId: string, res: Response): Promise<any> {
+    const jobStatus = await this._ocrService.waitForJob(jobId);
+
+    // FALL BACK TO POLLING WHEN THE JOB TAKES LONGER THAN THE SERVER ALLOWS
+    if (!jobStatus) {
+      this._logger.debug(
+        `Sync job ${jobId} timed out, falling back to polling`,
+      );
+      const { status, queuePosition } = this._ocrService.getJobStatus(jobId);
+      return {
+        jobId,
+        message: 'OCR processing did not finish in time, poll the status URL',
+        status,
+        queuePosition,
+        returnStrategy: 'polling',
+        statusUrl: `/ocr/status/${jobId}`,
+      };
+    }
+
+    if (jobStatus.status !== 'completed') {
+      throw new UnprocessableEntityException({
+        statusCode: HttpStatus.UNPROCESSABLE_ENTITY,
+        error: 'Unprocessable Entity',
+        message: jobStatus.error,
+        errorCode: jobStatus.errorCode,
+      });
+    }
+
+    res.status(HttpStatus.OK);
+    return jobStatus.result;
+  }
+
+  /**
+   * Loads a result document of a job as a downloadable file
+   * @param jobId - The unique job identifier
+   * @param extension - The requested file extension
+   * @param apiKey - The API key of the request, undefined if authentication is disabled
+   * @returns The document with its content type
+   * @throws {NotFoundException} When the job is unknown, belongs to another API key or has no document for this extension
+   * @private
+   */
+  private async _getResultFile(
+    jobId: string,
+    extension: string,
+    apiKey?: ApiKeyConfig,
+  ): Promise<StreamableFile> {
+    this._ocrService.assertJobAccess(jobId, apiKey);
+    const { content, contentType } = await this._ocrService.getResultDocument(
+      jobId,
+      extension,
+    );
+
+    return new StreamableFile(content, {
+      type: contentType,
+      disposition: `inline; filename="${jobId}.${extension}"`,
+    });
+  }
+
+  /**
+   * Validates the requested output format
+   * @param outputFormat - The requested output format, optional
+   * @throws {BadRequestException} When the output format is not supported
+   * @private
+   */
+  private _assertOutputFormat(outputFormat?: string): void {
+    if (
+      outputFormat &&
+      !OUTPUT_FORMATS.includes(outputFormat as OutputFormat)
+    ) {
+      throw new BadRequestException(
+        `Invalid output format. Must be: ${OUTPUT_FORMATS.join(', ')}`,
+      );
+    }
+  }
+
+  /**
+   * Validates the candidate languages for language detection
+   * @param language - The requested OCR language
+   * @param languages - The requested candidate languages
+   * @throws {BadRequestException} When candidates are given without `language: "auto"` or are not a non-empty array of language codes
+   * @private
+   */
+  private _assertLanguages(language?: string, languages?: unknown): void {
+    if (languages === undefined) return;
+
+    if (language !== 'auto') {
+      throw new BadRequestException(
+        'languages can only be used with language "auto"',
+      );
+    }
+    if (
+      !Array.isArray(languages) ||
+      languages.length === 0 ||
+      languages.some(
+        (code) => typeof code !== 'string' || !/^[\w-]+$/.test(code),
+      )
+    ) {
+      throw new BadRequestException(
+        'languages must be a non-empty array of language codes',
+      );
+    }
+  }
+
+  /**
+   * Checks that all languages of a request are installed
+   * @param language - The requested OCR language, defaults to 'deu'
+   * @param languages - The candidate languages for `language: "auto"`
+   * @param regions - The requested regions, which may have their own language
+   * @throws {BadRequestException} When a language is not installed
+   * @private
+   */
+  private async _assertLanguagesInstalled(
+    language?: string,
+    languages?: string[],
+    regions?: OcrRegion[],
+  ): Promise<void> {
+    const requested = [language || 'deu', ...this._getRegionLanguages(regions)]
+      .filter((code) => code !== 'auto')
+      .flatMap((code) => code.split('+'));
+    if (language === 'auto') {
+      requested.push(...(languages || []));
+    }
+
+    await this._languagePackService.assertInstalled(requested);
+  }
+
+  /**
+   * Gets the languages set on individual regions
+   * @param regions - The requested regions
+   * @returns The region languages, regions without their own language are skipped
+   * @private
+   */
+  private _getRegionLanguages(regions?: OcrRegion[]): string[] {
+    return (regions || [])
+      .map((region) => region.language)
+      .filter((code): code is string => !!code);
+  }
+
+  /**
+   * Validates the Tesseract engine parameters of a request
+   * @param parameters - The requested engine parameters
+   * @throws {BadRequestException} When a parameter is out of range or a config variable is not allowed
+   * @private
+   */
+  private _assertTesseractParameters(parameters?: unknown): void {
+    if (parameters === undefined) return;
+
+    if (
+      typeof parameters !== 'object' ||
+      parameters === null ||
+      Array.isArray(parameters)
+    ) {
+      throw new BadRequestException('tesseract must be an object');
+    }
+    const {
+      psm,
+      oem,
+      dpi,
+      whitelist,
+      blacklist,
+      preserveInterwordSpaces,
+      variables,
+    } = parameters as TesseractParameters;
+
+    const ranges: [string, unknown, number, number][] = [
+      ['psm', psm, 0, MAX_PSM],
+      ['oem', oem, 0, MAX_OEM],
+      ['dpi', dpi, MIN_DPI, MAX_DPI],
+    ];
+    for (const [name, value, min, max] of ranges) {
+      if (
+        value !== undefined &&
+        (!Number.isInteger(value) ||
+          (value as number) < min ||
+          (value as number) > max)
+      ) {
+        throw new BadRequestException(
+          `tesseract.${name} must be an integer between ${min} and ${max}`,
+        );
+      }
+    }
+
+    for (const [name, value] of Object.entries({ whitelist, blacklist })) {
+      if (value !== undefined && (typeof value !== 'string' || !value)) {
+        throw new BadRequestException(
+          `tesseract.${name} must be a non-empty string`,
+        );
+      }
+    }
+    if (
+      preserveInterwordSpaces !== undefined &&
+      typeof preserveInterwordSpaces !== 'boolean'
+    ) {
+      throw new BadRequestException(
+        'tesseract.preserveInterwordSpaces must be a boolean',
+      );
+    }
+
+    if (variables === undefined) return;
+    if (
+      typeof variables !== 'object' ||
+      variables === null ||
+      Array.isArray(variables)
+    ) {
+      throw new BadRequestException('tesseract.variables must be an object');
+    }
+    for (const [name, value] of Object.entries(variables)) {
+      if (!TESSERACT_VARIABLES.includes(name)) {
+        throw new BadRequestException(
+          `tesseract.variables.${name} is not allowed, allowed variables: ${TESSERACT_VARIABLES.join(', ')}`,
+        );
+      }
+      if (
+        !['string', 'number', 'boolean'].includes(typeof value) ||
+        !/^[\w.-]*$/.test(String(value))
+      ) {
+        throw new BadRequestException(
+          `tesseract.variables.${name} must be a string, number or boolean`,
+        );
+      }
+    }
+  }
+
+  /**
+   * Validates the preprocessing steps of a request
+   * @param steps - The requested preprocessing steps
+   * @throws {BadRequestException} When the steps are not an array of known steps
+   * @private
+   */
+  private _assertPreprocessing(steps?: unknown): void {
+    if (steps === undefined) return;
+
+    if (
+      !Array.isArray(steps) ||
+      steps.some((step) => !PREPROCESSING_STEPS.includes(step))
+    ) {
+      throw new BadRequestException(
+        `preprocessing must be an array of: ${PREPROCESSING_STEPS.join(', ')}`,
+      );
+    }
+  }
+
+  /**
+   * Validates the regions of interest of a request
+   * @param regions - The requested regions, coordinates normalized to 0-1 like `DimensionData`
+   * @param outputFormat - The requested output format
+   * @throws {BadRequestException} When a region is invalid, or regions are combined with a document output format
+   * @private
+   */
+  private _assertRegions(regions?: unknown, outputFormat?: string): void {
+    if (regions === undefined) return;
+
+    if (!Array.isArray(regions) || regions.length === 0) {
+      throw new BadRequestException('regions must be a non-empty array');
+    }
+    if (outputFormat && outputFormat !== 'json') {
+      throw new BadRequestException(
+        'regions can only be combined with the json output format',
+      );
+    }
+
+    const ids = new Set<string>();
+    regions.forEach((region: OcrRegion, index) => {
+      const name = `regions[${index}]`;
+      const zoneError = getZoneError(region, name);
+      if (zoneError) {
+        throw new BadRequestException(zoneError);
+      }
+
+      if (
+        region.psm !== undefined &&
+        (!Number.isInteger(region.psm) ||
+          region.psm < 0 ||
+          region.psm > MAX_PSM)
+      ) {
+        throw new BadRequestException(
+          `${name}.psm must be an integer between 0 and ${MAX_PSM}`,
+        );
+      }
+      if (
+        region.language !== undefined &&
+        typeof region.language !== 'string'
+      ) {
+        throw new BadRequestException(`${name}.language must be a string`);
+      }
+
+      // LANGUAGE DETECTION RUNS ON THE WHOLE PAGE, REGIONS INHERIT ITS RESULT INSTEAD
+      if (region.language === 'auto') {
+        throw new BadRequestException(
+          `${name}.language cannot be auto, omit it to use the language of the document`,
+        );
+      }
+
+      if (region.id !== undefined) {
+        if (typeof region.id !== 'string' || !region.id) {
+          throw new BadRequestException(
+            `${name}.id must be a non-empty string`,
+          );
+        }
+        if (ids.has(region.id)) {
+          throw new BadRequestException(`Duplicate region id: ${region.id}`);
+        }
+        ids.add(region.id);
+      }
+    });
+  }
+
+  /**
+   * Rethrows an error of starting a job, adding a `Retry-After` header when the job queue is full
+   * The queue capacity is checked when the job is queued, so concurrent requests cannot overflow the queue
+   * @param error - The error thrown when starting the job
+   * @param res - The response to set the `Retry-After` header on
+   * @throws {ServiceUnavailableException} When the job queue is full
+   * @throws {Error} The error itself otherwise
+   * @private
+   */
+  private _rethrowWithRetryAfter(error: unknown, res: Response): never {
+    if (error instanceof ServiceUnavailableException) {
+      res.setHeader('Retry-After', QUEUE_RETRY_AFTER_SECONDS.toString());
+    }
+    throw error;
+  }
 }
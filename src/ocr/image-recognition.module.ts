@@ -3,9 +3,35 @@ import { ImageRecognitionController } from './image-recognition.controller';
 import { ImageRecognitionService } from './image-recognition.service';
 import { OcrService } from './ocr.service';
 import { CodeReaderService } from './code-reader.service';
+import { JobEventsService } from './job-events.service';
+import { createJobStore, JobStore } from './job-store.service';
+import { PageExtractorService } from './page-extractor.service';
+import { WebhookService } from './webhook.service';
+import { FormTemplateController } from './form-template.controller';
+import { FormTemplateService } from './form-template.service';
+import { PreprocessingService } from './preprocessing.service';
+import { LanguageDetectionService } from './language-detection.service';
+import { LanguagePackController } from './language-pack.controller';
+import { LanguagePackService } from './language-pack.service';
 
 @Module({
-  controllers: [ImageRecognitionController],
-  providers: [ImageRecognitionService, OcrService, CodeReaderService],
+  controllers: [
+    ImageRecognitionController,
+    FormTemplateController,
+    LanguagePackController,
+  ],
+  providers: [
+    ImageRecognitionService,
+    OcrService,
+    CodeReaderService,
+    PageExtractorService,
+    WebhookService,
+    JobEventsService,
+    FormTemplateService,
+    PreprocessingService,
+    LanguageDetectionService,
+    LanguagePackService,
+    { provide: JobStore, useFactory: createJobStore },
+  ],
 })
-export class ImageRecognitionModule {}
\ No newline at end of file
+export class ImageRecognitionModule {}
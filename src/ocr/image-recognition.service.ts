@@ -1,88 +1,359 @@
-import { Injectable, Logger, NotFoundException } from '@nestjs/common';
-import { Observable, Subject } from 'rxjs';
-import { OcrService } from './ocr.service';
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleDestroy,
+  OnModuleInit,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import {
+  defer,
+  EMPTY,
+  filter,
+  firstValueFrom,
+  map,
+  Observable,
+  of,
+  Subject,
+  timeout,
+} from 'rxjs';
+import { OcrEngineResult, OcrService } from './ocr.service';
 import { CodeReaderService } from './code-reader.service';
+import { JobEventsService, MessageEvent } from './job-events.service';
+import { JobStore } from './job-store.service';
+import { ApiKeyConfig } from '../types/api-key.types';
+import { WorkerStatus } from '../types/worker.types';
+import { FormTemplate } from '../types/form-template.types';
+import { PreprocessingStepReport } from '../types/preprocessing.types';
+import { PageExtractorService } from './page-extractor.service';
+import { WebhookService } from './webhook.service';
+import { FormTemplateService } from './form-template.service';
+import { PreprocessingService } from './preprocessing.service';
+import { LanguageDetectionService } from './language-detection.service';
 import { nanoid } from '../types/nanoid.function';
+import { JobError } from '../types/job-error.class';
 import {
+  JobErrorCode,
   JobStatus,
+  ProgressStage,
   ReturnStrategy,
+  WebhookDeliveryAttempt,
   WebhookPayload,
 } from '../types/return-strategy.types';
-import { response } from 'express';
-import { OcrProcessResult, DimensionData, TextContent, DataContent } from '../types/ocr.types';
+import {
+  OcrPageResult,
+  OcrProcessResult,
+  DimensionData,
+  LanguageDetection,
+  TextContent,
+  DataContent,
+  LayoutBlockContent,
+  OcrOptions,
+  OcrRegionResult,
+  OutputFormat,
+  PageOrientation,
+} from '../types/ocr.types';
+import {
+  filterLayoutWords,
+  TsvPageResult,
+} from '../types/parse-tsv-output.function';
+import { rectanglesOverlap } from '../types/rectangles-overlap.function';
+import { mapLayoutCoordinates } from '../types/map-layout-coordinates.function';
+import { mapRegionToPage } from '../types/map-region-coordinates.function';
+import { mapRotatedToOriginal } from '../types/map-rotation-coordinates.function';
+import {
+  reconstructText,
+  renderMarkdown,
+} from '../types/reconstruct-text.function';
 import { promises as fs } from 'fs';
-import { join } from 'path';
+import { cpus } from 'os';
+import { dirname, join } from 'path';
 
-interface MessageEvent {
-  data: string;
+// OCR RESULT OF ALL PAGES, PLUS THE TEXT PER REGION IF ONLY REGIONS WERE RECOGNIZED
+interface RecognitionResult extends OcrEngineResult {
+  regions?: OcrRegionResult[];
 }
 
+// MESSAGE REPORTED FOR CANCELLED JOBS VIA SSE, WEBHOOK AND POLLING
+const CANCELLED_MESSAGE = 'Job was cancelled';
+
+interface QueuedJob {
+  jobId: string;
+  buffer: Buffer;
+  returnStrategy: ReturnStrategy;
+  webhookUrl?: string;
+  callbackHeaders?: Record<string, string>;
+  options: OcrOptions;
+  template?: FormTemplate;
+}
+
+// A WORKER PROCESSES ONE JOB AT A TIME, ITS JOB FILES ARE KEPT IN ITS OWN TEMP DIRECTORY
+interface OcrWorker extends WorkerStatus {
+  workspace: string;
+  jobId?: string;
+}
+
+// INTERVAL FOR REMOVING EXPIRED JOBS FROM THE STORE
+const EVICTION_INTERVAL_MS = 60 * 1000;
+
+// DOWNLOADABLE RESULT DOCUMENTS, STORED AS `result.<kind>` JOB ARTIFACTS
+type ResultDocumentKind = Exclude<OutputFormat, 'json'> | 'text' | 'markdown';
+const RESULT_DOCUMENTS: Record<
+  ResultDocumentKind,
+  { extension: string; contentType: string }
+> = {
+  hocr: { extension: 'xml', contentType: 'application/xhtml+xml' },
+  alto: { extension: 'xml', contentType: 'application/xml' },
+  pdf: { extension: 'pdf', contentType: 'application/pdf' },
+  text: { extension: 'txt', contentType: 'text/plain; charset=utf-8' },
+  markdown: { extension: 'md', contentType: 'text/markdown; charset=utf-8' },
+};
+
+// SEPARATOR BETWEEN PAGES IN RECONSTRUCTED TEXT, LIKE TESSERACT'S OWN TEXT OUTPUT
+const PAGE_SEPARATOR = '\n\f\n';
+
+// OVERALL PROGRESS IN PERCENT AFTER EACH STEP, SO SINGLE-PAGE JOBS ADVANCE TOO, OCR AND BARCODE SCAN SHARE THE RECOGNITION RANGE
+const PROGRESS_DECODED = 10;
+const PROGRESS_ORIENTED = 15;
+const PROGRESS_PREPROCESSED = 20;
+const PROGRESS_RECOGNITION = 25;
+const PROGRESS_OCR_SHARE = 50;
+const PROGRESS_CODES_SHARE = 15;
+const PROGRESS_POSTPROCESSING = 90;
+
 @Injectable()
-export class ImageRecognitionService {
+export class ImageRecognitionService implements OnModuleInit, OnModuleDestroy {
   private readonly _logger = new Logger(ImageRecognitionService.name);
-  private _processing = false;
-  private _progressStreams = new Map<string, Subject<MessageEvent>>();
-  private _jobStatuses = new Map<string, JobStatus>();
+  private _queue: QueuedJob[] = [];
+  private _runningJobs = new Map<
+    string,
+    { abortController: AbortController; finished: Promise<void> }
+  >();
+  private readonly _maxQueueSize = parseInt(
+    process.env.OCR_QUEUE_SIZE || '10',
+    10,
+  );
   private readonly _tempDir =
     process.env.TESSERACT_TEMP_DIR || '/tmp/tesseract-api';
+  private readonly _workers: OcrWorker[] = Array.from(
+    {
+      length: Math.max(
+        parseInt(process.env.OCR_WORKERS || '0', 10) || cpus().length,
+        1,
+      ),
+    },
+    (_, index) => ({
+      id: index + 1,
+      state: 'idle',
+      since: new Date(),
+      processedJobs: 0,
+      workspace: join(this._tempDir, `worker-${index + 1}`),
+    }),
+  );
+  private readonly _jobTtlMs =
+    parseInt(process.env.JOB_TTL || '3600', 10) * 1000;
+  private readonly _syncMaxWaitMs = parseInt(
+    process.env.SYNC_MAX_WAIT_MS || '30000',
+    10,
+  );
+  private readonly _osdMinConfidence = parseFloat(
+    process.env.OSD_MIN_CONFIDENCE || '2',
+  );
+  private readonly _jobTimeoutMs = parseInt(
+    process.env.JOB_TIMEOUT_MS || '600000',
+    10,
+  );
+  private _evictionTimer: NodeJS.Timeout;
+  private _finishedSyncJobs = new Subject<string>();
 
   constructor(
     private readonly tesseractService: OcrService,
     private readonly codeReaderService: CodeReaderService,
+    private readonly pageExtractorService: PageExtractorService,
+    private readonly webhookService: WebhookService,
+    private readonly _jobEvents: JobEventsService,
+    private readonly _jobStore: JobStore,
+    private readonly _formTemplateService: FormTemplateService,
+    private readonly _preprocessingService: PreprocessingService,
+    private readonly _languageDetectionService: LanguageDetectionService,
   ) {}
 
   /**
-   * Checks if the OCR service is currently processing a request
-   * @returns True if processing is in progress, false otherwise
+   * Fails jobs and webhook deliveries interrupted by a restart and starts the periodic eviction of expired jobs
    */
-  isProcessing(): boolean {
-    return this._processing;
+  onModuleInit(): void {
+    for (const jobStatus of this._jobStore.list()) {
+      if (jobStatus.status === 'queued' || jobStatus.status === 'processing') {
+        this._logger.warn(
+          `Job ${jobStatus.jobId} was interrupted by a restart`,
+        );
+        const error = `Service restarted while the job was ${jobStatus.status}`;
+        this._updateJobStatus(jobStatus.jobId, {
+          status: 'failed',
+          queuePosition: undefined,
+          stage: undefined,
+          error,
+          completedAt: new Date(),
+        });
+
+        // THE RECEIVER IS TOLD ABOUT THE FAILURE LIKE FOR ANY OTHER FAILED JOB
+        if (jobStatus.webhook) {
+          void this._sendWebhook(
+            jobStatus.jobId,
+            'failed',
+            jobStatus.webhook.url,
+            jobStatus.webhook.headers,
+            undefined,
+            error,
+          );
+        }
+        continue;
+      }
+
+      // FINISHED JOBS CAN STILL HAVE A WEBHOOK DELIVERY IN PROGRESS, IT CAN BE REDELIVERED MANUALLY
+      if (jobStatus.webhook?.status === 'pending' && jobStatus.completedAt) {
+        this._updateJobStatus(jobStatus.jobId, {
+          webhook: { ...jobStatus.webhook, status: 'failed' },
+        });
+      }
+    }
+
+    this._evictionTimer = setInterval(
+      () => this._evictExpiredJobs(),
+      EVICTION_INTERVAL_MS,
+    );
+    this._evictionTimer.unref();
+  }
+
+  /**
+   * Stops the periodic eviction of expired jobs
+   */
+  onModuleDestroy(): void {
+    clearInterval(this._evictionTimer);
+  }
+
+  /**
+   * Gets the state of all workers
+   * @returns One entry per worker, without the jobs they are processing
+   */
+  getWorkers(): WorkerStatus[] {
+    return this._workers.map(({ id, state, since, processedJobs }) => ({
+      id,
+      state,
+      since,
+      processedJobs,
+    }));
+  }
+
+  /**
+   * Gets the number of jobs waiting in the queue
+   * @returns Number of queued jobs
+   */
+  getQueueLength(): number {
+    return this._queue.length;
+  }
+
+  /**
+   * Checks if a new job can neither start immediately nor be queued
+   * @returns True if all workers are busy and the queue is full, false otherwise
+   */
+  isQueueFull(): boolean {
+    return (
+      this._workers.every((worker) => worker.jobId) &&
+      this._queue.length >= this._maxQueueSize
+    );
   }
 
   /**
    * Starts OCR processing on a buffer with specified return strategy
    * @param buffer - Image buffer to process
-   * @param returnStrategy - How to return results: 'sse', 'webhook', or 'polling'
+   * @param returnStrategy - How to return results: 'sse', 'webhook', 'polling' or 'sync'
    * @param webhookUrl - Optional webhook URL for webhook strategy
    * @param callbackHeaders - Optional headers for webhook callbacks
-   * @param language - OCR language code (e.g., 'deu', 'eng', 'deu+eng'). Defaults to 'deu'
+   * @param options - OCR options, the language defaults to 'deu'
+   * @param webhookKeyId - Optional ID of the key used to sign webhook requests
+   * @param ownerKey - Optional name of the API key submitting the job, only this key can access the job
    * @returns Promise resolving to unique job ID
+   * @throws {BadRequestException} When the webhook signing key or the form template is unknown
+   * @throws {ServiceUnavailableException} When the service is busy and the queue is full
    */
   async startImageRecognitionOnBuffer(
     buffer: Buffer,
     returnStrategy: ReturnStrategy = 'sse',
     webhookUrl?: string,
     callbackHeaders?: Record<string, string>,
-    language: string = 'deu',
+    options: OcrOptions = {},
+    webhookKeyId?: string,
+    ownerKey?: string,
   ): Promise<string> {
+    if (webhookKeyId && !this.webhookService.hasSigningKey(webhookKeyId)) {
+      throw new BadRequestException(
+        `Unknown webhook key ID: ${webhookKeyId}`,
+      );
+    }
+
+    // THE JOB KEEPS THE TEMPLATE VERSION IT WAS SUBMITTED WITH
+    const template = options.templateId
+      ? this._formTemplateService.find(options.templateId)
+      : undefined;
+    if (options.templateId && !template) {
+      throw new BadRequestException(`Unknown template: ${options.templateId}`);
+    }
+
+    // NOTHING IS AWAITED BETWEEN THIS CHECK AND QUEUEING THE JOB, SO CONCURRENT REQUESTS CANNOT OVERFLOW THE QUEUE
+    if (this.isQueueFull()) {
+      throw new ServiceUnavailableException(
+        'OCR queue is full, please try again later',
+      );
+    }
+
     this._logger.debug('Starting OCR process...');
     const jobId = nanoid();
 
     // INITIALIZE JOB STATUS
     const jobStatus: JobStatus = {
       jobId,
-      status: 'processing',
+      status: 'queued',
       createdAt: new Date(),
+      ownerKey,
+      webhook:
+        returnStrategy === 'webhook' && webhookUrl
+          ? {
+              url: webhookUrl,
+              headers: callbackHeaders,
+              keyId: webhookKeyId,
+              status: 'pending',
+              attempts: [],
+            }
+          : undefined,
     };
-    this._jobStatuses.set(jobId, jobStatus);
+    this._jobStore.save(jobStatus);
 
     // SETUP SSE STREAM IF NEEDED
     if (returnStrategy === 'sse') {
-      const progressSubject = new Subject<MessageEvent>();
-      this._progressStreams.set(jobId, progressSubject);
+      this._jobEvents.open(jobId);
     }
 
-    this._processing = true;
-
-    // START OCR PROCESSING IN BACKGROUND
-    void this._processImageAsync(
+    this._queue.push({
       jobId,
       buffer,
       returnStrategy,
       webhookUrl,
       callbackHeaders,
-      language,
-    );
+      options: {
+        ...options,
+        language: options.language || 'deu',
+        regions: options.regions?.map((region, index) => ({
+          ...region,
+          id: region.id || `region-${index + 1}`,
+        })),
+      },
+      template,
+    });
+
+    this._startNextJobs();
 
     this._logger.debug(
       `OCR-job created: ${jobId} with strategy: ${returnStrategy}`,
@@ -90,6 +361,146 @@ export class ImageRecognitionService {
     return jobId;
   }
 
+  /**
+   * Starts queued jobs in the background until all workers are busy or the queue is empty
+   * @private
+   */
+  private _startNextJobs(): void {
+    for (const worker of this._workers) {
+      if (worker.jobId) continue;
+
+      const next = this._queue.shift();
+      if (!next) break;
+      this._startJob(worker, next);
+    }
+
+    this._updateQueuePositions();
+  }
+
+  /**
+   * Starts processing a job on an idle worker, the worker takes the next queued job when it is finished
+   * @param worker - The idle worker
+   * @param next - The job taken from the queue
+   * @private
+   */
+  private _startJob(worker: OcrWorker, next: QueuedJob): void {
+    this._updateJobStatus(next.jobId, {
+      status: 'processing',
+      queuePosition: undefined,
+    });
+    worker.state = 'processing';
+    worker.since = new Date();
+    worker.jobId = next.jobId;
+
+    // START OCR PROCESSING IN BACKGROUND, THE JOB CAN BE CANCELLED UNTIL IT FINISHES
+    const abortController = new AbortController();
+
+    // A TIMEOUT ABORTS THE JOB LIKE A CANCELLATION, THE ERROR AS REASON MARKS IT AS FAILED
+    const timeout =
+      this._jobTimeoutMs > 0
+        ? setTimeout(
+            () =>
+              abortController.abort(
+                new JobError(
+                  'TIMEOUT',
+                  `Job exceeded the timeout of ${this._jobTimeoutMs} ms`,
+                ),
+              ),
+            this._jobTimeoutMs,
+          )
+        : undefined;
+
+    const finished = this._processImageAsync(
+      next.jobId,
+      next.buffer,
+      next.returnStrategy,
+      next.webhookUrl,
+      next.callbackHeaders,
+      next.options,
+      next.template,
+      worker.workspace,
+      abortController.signal,
+    ).finally(() => {
+      clearTimeout(timeout);
+      this._runningJobs.delete(next.jobId);
+      worker.state = 'idle';
+      worker.since = new Date();
+      worker.jobId = undefined;
+      worker.processedJobs++;
+
+      // START NEXT QUEUED JOB
+      this._startNextJobs();
+    });
+    this._runningJobs.set(next.jobId, { abortController, finished });
+  }
+
+  /**
+   * Cancels a job: queued jobs are removed from the queue, running jobs are aborted and their Tesseract process is killed
+   * Cancellation is reported like completion via SSE, webhook and sync responses, temp files are removed before this method returns
+   * @param jobId - The unique job identifier
+   * @returns Promise resolving to the status of the cancelled job
+   * @throws {NotFoundException} When job ID is not found
+   * @throws {ConflictException} When the job has already finished, or finished before the cancellation took effect
+   */
+  async cancelJob(jobId: string): Promise<JobStatus> {
+    const jobStatus = this.getJobStatus(jobId);
+    if (jobStatus.completedAt) {
+      throw new ConflictException(
+        `Job ${jobId} is ${jobStatus.status}, only queued and running jobs can be cancelled`,
+      );
+    }
+
+    const queueIndex = this._queue.findIndex((job) => job.jobId === jobId);
+    if (queueIndex >= 0) {
+      const [queuedJob] = this._queue.splice(queueIndex, 1);
+      this._updateJobStatus(jobId, {
+        status: 'cancelled',
+        queuePosition: undefined,
+        error: CANCELLED_MESSAGE,
+        completedAt: new Date(),
+      });
+      this._updateQueuePositions();
+      await this._handleCancellation(
+        jobId,
+        queuedJob.returnStrategy,
+        queuedJob.webhookUrl,
+        queuedJob.callbackHeaders,
+      );
+      this._jobEvents.close(jobId);
+    } else {
+      const runningJob = this._runningJobs.get(jobId);
+      runningJob?.abortController.abort();
+      await runningJob?.finished;
+    }
+
+    // A JOB PAST ITS LAST ABORT CHECK FINISHES ANYWAY
+    const finishedJob = this.getJobStatus(jobId);
+    if (finishedJob.status !== 'cancelled') {
+      throw new ConflictException(
+        `Job ${jobId} is ${finishedJob.status}, it finished before it could be cancelled`,
+      );
+    }
+
+    this._logger.debug(`OCR-job cancelled: ${jobId}`);
+    return finishedJob;
+  }
+
+  /**
+   * Updates the queue position of all waiting jobs and reports it via SSE
+   * @private
+   */
+  private _updateQueuePositions(): void {
+    this._queue.forEach((queuedJob, index) => {
+      const position = index + 1;
+      const jobStatus = this._jobStore.get(queuedJob.jobId);
+      if (!jobStatus || jobStatus.queuePosition === position) return;
+
+      this._updateJobStatus(queuedJob.jobId, { queuePosition: position });
+
+      this._sendSse(queuedJob.jobId, { type: 'queued', position });
+    });
+  }
+
   /**
    * Gets debug information from the Tesseract service
    * @returns Debug information including system state and configuration
@@ -123,7 +534,7 @@ export class ImageRecognitionService {
 
       // CHECK DIRECTORY PERMISSIONS
       try {
-        const stats = await fs.stat(this._tempDir);
+        const stats = await fs.stat(dirname(inputPath));
         this._logger.error(
           `Temp directory permissions: ${stats.mode.toString(8)}`,
         );
@@ -138,60 +549,301 @@ export class ImageRecognitionService {
   /**
    * Processes OCR asynchronously and handles different return strategies
    * @param jobId - Unique job identifier
-   * @param buffer - Image buffer to process
+   * @param buffer - Image or PDF buffer to process
    * @param returnStrategy - How to return results
    * @param webhookUrl - Optional webhook URL
    * @param callbackHeaders - Optional webhook headers
-   * @param language - OCR language code (e.g., 'deu', 'eng', 'deu+eng')
+   * @param options - OCR options
+   * @param template - Optional form template whose fields are extracted
+   * @param workspace - Temp directory of the worker, the job files are created in it
+   * @param signal - Signal that fires when the job is cancelled, running Tesseract processes are killed and no further stage starts
    * @private
    */
   private async _processImageAsync(
     jobId: string,
     buffer: Buffer,
     returnStrategy: ReturnStrategy,
-    webhookUrl?: string,
-    callbackHeaders?: Record<string, string>,
-    language: string = 'deu',
+    webhookUrl: string | undefined,
+    callbackHeaders: Record<string, string> | undefined,
+    options: OcrOptions,
+    template: FormTemplate | undefined,
+    workspace: string,
+    signal: AbortSignal,
   ) {
-    const progressSubject = this._progressStreams.get(jobId);
-    const inputPath = join(this._tempDir, `input_${jobId}.png`);
+    const documentType = this.pageExtractorService.detectDocumentType(buffer);
+    const inputPath = join(
+      workspace,
+      `input_${jobId}.${this.pageExtractorService.getFileExtension(documentType)}`,
+    );
+    const tempFiles = [inputPath];
 
     try {
+      this._reportProgress(
+        jobId,
+        'received',
+        0,
+        `Received ${documentType} (${buffer.length} bytes)`,
+      );
+
       // WRITE BUFFER TO TEMP FILE
+      await fs.mkdir(workspace, { recursive: true });
       await this._writeBufferToTempFile(buffer, inputPath);
 
-      // PROCESS IMAGE WITH BOTH TESSERACT AND ZBAR IN PARALLEL
-      const [textResults, codes] = await Promise.all([
-        this.tesseractService.processImage(inputPath, language).catch((error) => {
+      // SPLIT DOCUMENT INTO ONE IMAGE PER PAGE
+      let pagePaths = await this.pageExtractorService.extractPages(
+        inputPath,
+        documentType,
+        join(workspace, `page_${jobId}`),
+        signal,
+      );
+      tempFiles.push(...pagePaths.filter((path) => path !== inputPath));
+      signal.throwIfAborted();
+
+      this._reportProgress(
+        jobId,
+        'decoded',
+        PROGRESS_DECODED,
+        `Decoded ${pagePaths.length} ${pagePaths.length === 1 ? 'page' : 'pages'}`,
+      );
+
+      // ROTATE SIDEWAYS AND UPSIDE-DOWN PAGES UPRIGHT, ALL FURTHER STEPS WORK ON THE UPRIGHT PAGES
+      let orientation: PageOrientation[];
+      if (options.autoRotate) {
+        ({ pagePaths, orientation } = await this._correctOrientation(
+          jobId,
+          workspace,
+          pagePaths,
+          tempFiles,
+          signal,
+        ));
+        const rotatedPages = orientation.filter((page) => page.corrected);
+        this._reportProgress(
+          jobId,
+          'oriented',
+          PROGRESS_ORIENTED,
+          `Rotated ${rotatedPages.length} of ${pagePaths.length} ${pagePaths.length === 1 ? 'page' : 'pages'}`,
+        );
+      }
+
+      // REGIONS MUST REFER TO EXISTING PAGES
+      const invalidRegion = options.regions?.find(
+        (region) => (region.page || 1) > pagePaths.length,
+      );
+      if (invalidRegion) {
+        throw new Error(
+          `Region ${invalidRegion.id} refers to page ${invalidRegion.page}, the document has ${pagePaths.length} ${pagePaths.length === 1 ? 'page' : 'pages'}`,
+        );
+      }
+
+      // OCR RUNS ON THE PREPROCESSED PAGES, THE BARCODE SCAN ON THE ORIGINAL ONES
+      let ocrPagePaths = pagePaths;
+      let preprocessing: PreprocessingStepReport[];
+      if (options.preprocessing?.length) {
+        ({ ocrPagePaths, preprocessing } = await this._preprocessPages(
+          jobId,
+          workspace,
+          pagePaths,
+          options,
+          tempFiles,
+          signal,
+        ));
+        this._reportProgress(
+          jobId,
+          'preprocessed',
+          PROGRESS_PREPROCESSED,
+          `Preprocessed ${pagePaths.length} ${pagePaths.length === 1 ? 'page' : 'pages'}`,
+        );
+      }
+
+      // DETECT THE LANGUAGE ON THE FIRST PAGE AND RECOGNIZE ALL PAGES WITH IT
+      let detectedLanguage: LanguageDetection;
+      if (options.language === 'auto') {
+        detectedLanguage = await this._languageDetectionService.detectLanguage(
+          ocrPagePaths[0],
+          workspace,
+          options.languages,
+          signal,
+        );
+        options = { ...options, language: detectedLanguage.language };
+        this._reportProgress(
+          jobId,
+          'language',
+          PROGRESS_RECOGNITION,
+          `Detected language ${detectedLanguage.language}`,
+        );
+      }
+
+      // BOTH RECOGNITION TASKS CONTRIBUTE TO THE OVERALL PROGRESS
+      let ocrPercent = 0;
+      let scannedPages = 0;
+      const getRecognitionProgress = (): number =>
+        PROGRESS_RECOGNITION +
+        Math.round(
+          (ocrPercent / 100) * PROGRESS_OCR_SHARE +
+            (scannedPages / pagePaths.length) * PROGRESS_CODES_SHARE,
+        );
+
+      const onOcrProgress = (percent: number): void => {
+        ocrPercent = percent;
+        this._reportProgress(
+          jobId,
+          'ocr',
+          getRecognitionProgress(),
+          `OCR processing... ${percent}%`,
+        );
+      };
+
+      // RECOGNIZE EITHER THE REQUESTED REGIONS OR THE COMPLETE PAGES
+      const recognition: Promise<RecognitionResult> = options.regions
+        ? this._recognizeRegions(
+            jobId,
+            workspace,
+            ocrPagePaths,
+            options,
+            tempFiles,
+            onOcrProgress,
+            signal,
+          )
+        : this.tesseractService.processImage(
+            ocrPagePaths,
+            workspace,
+            options,
+            onOcrProgress,
+            signal,
+          );
+
+      // PROCESS PAGES WITH BOTH TESSERACT AND ZBAR IN PARALLEL
+      const [ocrResult, codePages] = await Promise.all([
+        recognition.catch((error): RecognitionResult => {
+          if (signal.aborted || error instanceof JobError) throw error;
           this._logger.warn(`OCR processing failed: ${error.message}`);
-          return []; // CONTINUE EVEN IF OCR FAILS
-        }),
-        this.codeReaderService.processImage(inputPath).catch((error) => {
-          this._logger.warn(`ZBar processing failed: ${error.message}`);
-          return []; // CONTINUE EVEN IF ZBAR FAILS
+          return { pages: [] }; // CONTINUE EVEN IF OCR FAILS
         }),
+        this._scanPagesForCodes(pagePaths, () => scannedPages++, signal).then(
+          (scannedCodes) => {
+            this._reportProgress(
+              jobId,
+              'codes',
+              getRecognitionProgress(),
+              `Barcode scan completed (${scannedCodes.flat().length} codes)`,
+            );
+            return scannedCodes;
+          },
+        ),
       ]);
+      const textPages = ocrResult.pages;
 
-      // FILTER OUT OCR TEXT THAT OVERLAPS WITH DETECTED CODES
-      const filteredTextResults = this._filterOverlappingText(textResults, codes);
+      this._reportProgress(
+        jobId,
+        'postprocessing',
+        PROGRESS_POSTPROCESSING,
+        'Post-processing results',
+      );
+
+      const markdownPages: string[] = [];
+      const pageLayouts: DimensionData<LayoutBlockContent>[][] = [];
+      const pages: OcrPageResult[] = pagePaths.map((_, index) => {
+        const codes = codePages[index];
+
+        // FILTER OUT OCR TEXT THAT OVERLAPS WITH DETECTED CODES
+        const words = this._filterOverlappingText(
+          textPages[index]?.words || [],
+          codes,
+        );
+
+        const layout = filterLayoutWords(
+          textPages[index]?.layout || [],
+          new Set(words.map((word) => word.data.id)),
+        );
 
-      // COMBINE RESULTS
+        const page: OcrPageResult = {
+          pageNumber: index + 1,
+          words,
+          codes,
+          text: reconstructText(words, layout),
+        };
+        if (options.layout) {
+          page.layout = layout;
+        }
+        markdownPages.push(renderMarkdown(words, layout));
+        pageLayouts.push(layout);
+        return page;
+      });
+
+      // COMBINE RESULTS, TOP-LEVEL WORDS, CODES AND LAYOUT ALWAYS DESCRIBE THE FIRST PAGE, TEXT COVERS ALL PAGES
+      const text = pages.map((page) => page.text).join(PAGE_SEPARATOR);
+      const markdown = markdownPages.join('\n\n---\n\n');
       const result: OcrProcessResult = {
-        words: filteredTextResults,
-        codes,
+        words: pages[0].words,
+        codes: pages[0].codes,
+        layout: pages[0].layout,
+        text,
+        tesseract: this.tesseractService.getEffectiveParameters(options),
       };
+      if (options.markdown) {
+        result.markdown = markdown;
+      }
+      if (documentType !== 'image') {
+        result.pages = pages;
+      }
+      if (ocrResult.regions) {
+        result.regions = ocrResult.regions;
+      }
+      if (preprocessing) {
+        result.preprocessing = preprocessing;
+      }
+      if (detectedLanguage) {
+        result.detectedLanguage = detectedLanguage;
+      }
+      if (template) {
+        result.fields = await this._formTemplateService.extractFields(
+          template,
+          pages.map((page, index) => ({ ...page, layout: pageLayouts[index] })),
+          pagePaths,
+          signal,
+        );
+      }
+      if (orientation) {
+        result.orientation = orientation;
+        if (options.originalCoordinates) {
+          this._mapResultToOriginal(result, pages, orientation);
+        }
+      }
+
+      // A JOB THAT TIMED OUT DURING POST-PROCESSING DOES NOT COMPLETE
+      signal.throwIfAborted();
+
+      // KEEP RESULT DOCUMENTS FOR DOWNLOAD
+      await this._saveResultDocument(jobId, 'text', Buffer.from(text));
+      await this._saveResultDocument(jobId, 'markdown', Buffer.from(markdown));
+
+      // DELIVER RENDERED TEXT FORMATS WITH THE RESULT
+      if (ocrResult.document) {
+        result.output = {
+          format: options.outputFormat,
+          url: await this._saveResultDocument(
+            jobId,
+            options.outputFormat as ResultDocumentKind,
+            ocrResult.document,
+          ),
+        };
+        if (options.outputFormat !== 'pdf') {
+          result.output.content = ocrResult.document.toString('utf8');
+        }
+      }
 
       this._logger.debug(
-        `OCR-job done: ${jobId} (${filteredTextResults.length}/${textResults.length} words, ${codes.length} codes)`,
+        `OCR-job done: ${jobId} (${pages.length} pages, ${pages.reduce((sum, page) => sum + page.words.length, 0)} words, ${pages.reduce((sum, page) => sum + page.codes.length, 0)} codes)`,
       );
 
       // UPDATE JOB STATUS
-      const jobStatus = this._jobStatuses.get(jobId);
-      if (jobStatus) {
-        jobStatus.status = 'completed';
-        jobStatus.result = result;
-        jobStatus.completedAt = new Date();
-      }
+      this._updateJobStatus(jobId, {
+        status: 'completed',
+        progress: 100,
+        stage: undefined,
+        result,
+        completedAt: new Date(),
+      });
 
       // HANDLE DIFFERENT RETURN STRATEGIES
       await this._handleCompletion(
@@ -200,46 +852,349 @@ export class ImageRecognitionService {
         result,
         webhookUrl,
         callbackHeaders,
-        progressSubject,
       );
     } catch (error) {
-      this._logger.error(`OCR-job failed: ${jobId}`, error);
+      if (signal.aborted && !(signal.reason instanceof JobError)) {
+        this._updateJobStatus(jobId, {
+          status: 'cancelled',
+          stage: undefined,
+          error: CANCELLED_MESSAGE,
+          completedAt: new Date(),
+        });
+        await this._handleCancellation(
+          jobId,
+          returnStrategy,
+          webhookUrl,
+          callbackHeaders,
+        );
+        return;
+      }
+
+      // AFTER A TIMEOUT THE ABORT ERROR OF THE INTERRUPTED STEP IS REPLACED BY THE TIMEOUT ERROR
+      const failure = signal.aborted ? signal.reason : error;
+      const errorCode = failure instanceof JobError ? failure.code : undefined;
+      this._logger.error(`OCR-job failed: ${jobId}`, failure);
 
       // UPDATE JOB STATUS
-      const jobStatus = this._jobStatuses.get(jobId);
-      if (jobStatus) {
-        jobStatus.status = 'failed';
-        jobStatus.error = error.message || 'OCR processing failed';
-        jobStatus.completedAt = new Date();
-      }
+      this._updateJobStatus(jobId, {
+        status: 'failed',
+        error: failure.message || 'OCR processing failed',
+        errorCode,
+        completedAt: new Date(),
+      });
 
       // HANDLE DIFFERENT RETURN STRATEGIES FOR ERRORS
       await this._handleError(
         jobId,
         returnStrategy,
-        error.message || 'OCR processing failed',
+        failure.message || 'OCR processing failed',
         webhookUrl,
         callbackHeaders,
-        progressSubject,
+        errorCode,
       );
     } finally {
-      this._processing = false;
-      if (progressSubject) {
-        progressSubject.complete();
+      this._jobEvents.close(jobId);
+
+      // CLEANUP INPUT AND PAGE FILES
+      for (const tempFile of tempFiles) {
+        try {
+          await fs.unlink(tempFile);
+          this._logger.debug(`Cleaned up input file: ${tempFile}`);
+        } catch (error: any) {
+          if (error.code !== 'ENOENT') {
+            this._logger.warn(
+              `Failed to cleanup input file ${tempFile}: ${error.message}`,
+            );
+          }
+        }
       }
+    }
+  }
+
+  /**
+   * Detects the orientation of all pages and rotates pages that are not upright, one page after another
+   * Pages are only rotated if the orientation confidence reaches `OSD_MIN_CONFIDENCE`, pages whose orientation cannot be detected are kept as they are
+   * @param jobId - Unique job identifier, used for naming the rotated images
+   * @param workspace - Temp directory of the worker, the rotated images are created in it
+   * @param pagePaths - Paths to the page images
+   * @param tempFiles - List of temporary files of the job, the rotated images are added to it
+   * @param signal - Optional signal to abort the detection when the job is cancelled
+   * @returns Promise resolving to the upright page images and the detected orientation of every page it could be detected for
+   * @throws {Error} When the detection was aborted
+   * @throws {JobError} When Tesseract exceeded its memory or CPU time limit
+   * @private
+   */
+  private async _correctOrientation(
+    jobId: string,
+    workspace: string,
+    pagePaths: string[],
+    tempFiles: string[],
+    signal?: AbortSignal,
+  ): Promise<{ pagePaths: string[]; orientation: PageOrientation[] }> {
+    const uprightPagePaths: string[] = [];
+    const orientation: PageOrientation[] = [];
 
-      // CLEANUP INPUT FILE
+    for (const [index, pagePath] of pagePaths.entries()) {
       try {
-        await fs.unlink(inputPath);
-        this._logger.debug(`Cleaned up input file: ${inputPath}`);
-      } catch (error: any) {
-        if (error.code !== 'ENOENT') {
-          this._logger.warn(
-            `Failed to cleanup input file ${inputPath}: ${error.message}`,
+        const detection = await this.tesseractService.detectOrientation(
+          pagePath,
+          signal,
+        );
+        const corrected =
+          detection.rotation !== 0 &&
+          detection.orientationConfidence >= this._osdMinConfidence;
+
+        let uprightPath = pagePath;
+        if (corrected) {
+          uprightPath = join(workspace, `upright_${jobId}-${index + 1}.png`);
+          tempFiles.push(uprightPath);
+          await this.pageExtractorService.rotatePage(
+            pagePath,
+            detection.rotation,
+            uprightPath,
+            signal,
           );
         }
+
+        uprightPagePaths.push(uprightPath);
+        orientation.push({ pageNumber: index + 1, ...detection, corrected });
+      } catch (error) {
+        if (signal?.aborted || error instanceof JobError) throw error;
+        this._logger.warn(
+          `Orientation detection of page ${index + 1} failed: ${error.message}`,
+        );
+        uprightPagePaths.push(pagePath); // CONTINUE WITH THE ORIGINAL PAGE
+      }
+    }
+
+    return { pagePaths: uprightPagePaths, orientation };
+  }
+
+  /**
+   * Maps all coordinates of a result from the rotated pages back into the original pages
+   * @param result - The result, modified in place
+   * @param pages - Results of all pages, modified in place
+   * @param orientation - The detected orientation of the pages
+   * @private
+   */
+  private _mapResultToOriginal(
+    result: OcrProcessResult,
+    pages: OcrPageResult[],
+    orientation: PageOrientation[],
+  ): void {
+    for (const { pageNumber, rotation, corrected } of orientation) {
+      if (!corrected) continue;
+
+      const toOriginal = <T extends DimensionData<unknown>>(item: T): T =>
+        mapRotatedToOriginal(item, rotation);
+
+      const page = pages[pageNumber - 1];
+      page.words = page.words.map(toOriginal);
+      page.codes = page.codes.map(toOriginal);
+      if (page.layout) {
+        page.layout = mapLayoutCoordinates(page.layout, toOriginal);
+      }
+
+      result.regions = result.regions?.map((region) =>
+        region.pageNumber === pageNumber ? toOriginal(region) : region,
+      );
+      for (const [name, field] of Object.entries(result.fields || {})) {
+        if (field.data.pageNumber === pageNumber) {
+          result.fields[name] = toOriginal(field);
+        }
+      }
+    }
+
+    // TOP-LEVEL WORDS, CODES AND LAYOUT DESCRIBE THE FIRST PAGE
+    result.words = pages[0].words;
+    result.codes = pages[0].codes;
+    result.layout = pages[0].layout;
+  }
+
+  /**
+   * Applies the requested preprocessing steps to all pages, one page after another
+   * Pages that cannot be preprocessed are recognized in their original form
+   * @param jobId - Unique job identifier, used for naming the preprocessed images
+   * @param workspace - Temp directory of the worker, the preprocessed images are created in it
+   * @param pagePaths - Paths to the page images
+   * @param options - OCR options including the preprocessing steps
+   * @param tempFiles - List of temporary files of the job, the preprocessed images are added to it
+   * @param signal - Optional signal to abort preprocessing when the job is cancelled
+   * @returns Promise resolving to the page images to recognize and the pages every step was applied to
+   * @throws {Error} When preprocessing was aborted
+   * @private
+   */
+  private async _preprocessPages(
+    jobId: string,
+    workspace: string,
+    pagePaths: string[],
+    options: OcrOptions,
+    tempFiles: string[],
+    signal?: AbortSignal,
+  ): Promise<{
+    ocrPagePaths: string[];
+    preprocessing: PreprocessingStepReport[];
+  }> {
+    const ocrPagePaths: string[] = [];
+    const preprocessing: PreprocessingStepReport[] = [];
+
+    for (const [index, pagePath] of pagePaths.entries()) {
+      signal?.throwIfAborted();
+      const outputPath = join(workspace, `prep_${jobId}-${index + 1}.png`);
+      tempFiles.push(outputPath);
+
+      try {
+        const applied = await this._preprocessingService.preprocess(
+          pagePath,
+          options.preprocessing,
+          outputPath,
+          signal,
+        );
+        ocrPagePaths.push(outputPath);
+
+        for (const step of applied) {
+          let report = preprocessing.find((entry) => entry.step === step);
+          if (!report) {
+            report = { step, pages: [] };
+            preprocessing.push(report);
+          }
+          report.pages.push(index + 1);
+        }
+      } catch (error) {
+        if (signal?.aborted) throw error;
+        this._logger.warn(
+          `Preprocessing of page ${index + 1} failed: ${error.message}`,
+        );
+        ocrPagePaths.push(pagePath); // CONTINUE WITH THE ORIGINAL PAGE
       }
     }
+
+    return { ocrPagePaths, preprocessing };
+  }
+
+  /**
+   * Recognizes text in the requested regions only, each region is cropped and recognized separately
+   * @param jobId - Unique job identifier, used for naming the region images
+   * @param workspace - Temp directory of the worker, the region images are created in it
+   * @param pagePaths - Paths to the page images
+   * @param options - OCR options including the regions, regions may override language and page segmentation mode
+   * @param tempFiles - List of temporary files of the job, the region images are added to it
+   * @param onProgress - Optional callback receiving the recognition progress in percent when recognition starts and whenever a region is finished
+   * @param signal - Optional signal to abort recognition when the job is cancelled
+   * @returns Promise resolving to one OCR result per page with coordinates relative to the page, plus the recognized text per region
+   * @throws {Error} When recognition was aborted
+   * @throws {JobError} When Tesseract exceeded its memory or CPU time limit
+   * @private
+   */
+  private async _recognizeRegions(
+    jobId: string,
+    workspace: string,
+    pagePaths: string[],
+    options: OcrOptions,
+    tempFiles: string[],
+    onProgress?: (percent: number) => void,
+    signal?: AbortSignal,
+  ): Promise<RecognitionResult> {
+    const pages: TsvPageResult[] = pagePaths.map((_, index) => ({
+      pageNumber: index + 1,
+      words: [],
+      layout: [],
+    }));
+    const regions: OcrRegionResult[] = [];
+    onProgress?.(0);
+
+    // RECOGNIZE SEQUENTIALLY TO KEEP ONLY ONE DECODED PAGE IN MEMORY
+    for (const [index, region] of options.regions.entries()) {
+      const pageNumber = region.page || 1;
+      const regionPath = join(workspace, `region_${jobId}_${index}.png`);
+      tempFiles.push(regionPath);
+
+      let regionPage: TsvPageResult | undefined;
+      try {
+        await this.pageExtractorService.extractRegion(
+          pagePaths[pageNumber - 1],
+          region,
+          regionPath,
+          signal,
+        );
+        regionPage = (
+          await this.tesseractService.processImage(
+            [regionPath],
+            workspace,
+            {
+              language: region.language || options.language,
+              psm: region.psm,
+              tesseract: options.tesseract,
+            },
+            undefined,
+            signal,
+          )
+        ).pages[0];
+      } catch (error) {
+        if (signal?.aborted || error instanceof JobError) throw error;
+        this._logger.warn(
+          `OCR processing of region ${region.id} failed: ${error.message}`,
+        );
+      }
+
+      // MAP COORDINATES FROM THE REGION IMAGE BACK INTO THE PAGE
+      const words = (regionPage?.words || []).map((word) => ({
+        ...mapRegionToPage(word, region),
+        data: { ...word.data, regionId: region.id },
+      }));
+      const layout = mapLayoutCoordinates(regionPage?.layout || [], (item) =>
+        mapRegionToPage(item, region),
+      );
+
+      pages[pageNumber - 1].words.push(...words);
+      pages[pageNumber - 1].layout.push(...layout);
+      regions.push({
+        id: region.id,
+        pageNumber,
+        left: region.left,
+        top: region.top,
+        width: region.width,
+        height: region.height,
+        text: reconstructText(words, layout),
+      });
+
+      onProgress?.(Math.round(((index + 1) / options.regions.length) * 100));
+    }
+
+    return { pages, regions };
+  }
+
+  /**
+   * Scans page images one after another for barcodes and QR codes
+   * @param pagePaths - Paths to the page images
+   * @param onPageScanned - Optional callback invoked after each page
+   * @param signal - Optional signal to abort the scan when the job is cancelled
+   * @returns Promise resolving to the detected codes, one array per page
+   * @throws {Error} When the scan was aborted
+   * @private
+   */
+  private async _scanPagesForCodes(
+    pagePaths: string[],
+    onPageScanned?: () => void,
+    signal?: AbortSignal,
+  ): Promise<DimensionData<DataContent>[][]> {
+    const codePages: DimensionData<DataContent>[][] = [];
+
+    // SCAN SEQUENTIALLY TO KEEP ONLY ONE DECODED PAGE IN MEMORY
+    for (const pagePath of pagePaths) {
+      codePages.push(
+        await this.codeReaderService
+          .processImage(pagePath, signal)
+          .catch((error) => {
+            if (signal?.aborted) throw error;
+            this._logger.warn(`ZBar processing failed: ${error.message}`);
+            return []; // CONTINUE EVEN IF ZBAR FAILS
+          }),
+      );
+      onPageScanned?.();
+    }
+
+    return codePages;
   }
 
   /**
@@ -260,7 +1215,7 @@ export class ImageRecognitionService {
     const filteredResults = textResults.filter((textResult) => {
       // CHECK IF THIS TEXT OVERLAPS WITH ANY CODE
       const overlapsWithCode = codes.some((code) =>
-        this._rectanglesOverlap(textResult, code),
+        rectanglesOverlap(textResult, code),
       );
       return !overlapsWithCode; // KEEP TEXT THAT DOESN'T OVERLAP
     });
@@ -276,53 +1231,193 @@ export class ImageRecognitionService {
   }
 
   /**
-   * Checks if two rectangles overlap
-   * @param rect1 - First rectangle with normalized coordinates (0-1)
-   * @param rect2 - Second rectangle with normalized coordinates (0-1)
-   * @returns True if rectangles overlap, false otherwise
+   * Sends data through the Server-Sent Events stream of a job, if it has one
+   * @param jobId - The unique job identifier
+   * @param data - Data to send via SSE
    * @private
    */
-  private _rectanglesOverlap(
-    rect1: DimensionData<any>,
-    rect2: DimensionData<any>,
-  ): boolean {
-    const rect1Right = rect1.left + rect1.width;
-    const rect1Bottom = rect1.top + rect1.height;
-    const rect2Right = rect2.left + rect2.width;
-    const rect2Bottom = rect2.top + rect2.height;
+  private _sendSse(jobId: string, data: unknown): void {
+    this._jobEvents.emit(jobId, data);
+  }
 
-    // RECTANGLES DON'T OVERLAP IF ONE IS COMPLETELY TO THE LEFT, RIGHT, ABOVE, OR BELOW THE OTHER
-    const noOverlap =
-      rect1Right <= rect2.left || // RECT1 IS TO THE LEFT OF RECT2
-      rect2Right <= rect1.left || // RECT2 IS TO THE LEFT OF RECT1
-      rect1Bottom <= rect2.top || // RECT1 IS ABOVE RECT2
-      rect2Bottom <= rect1.top; // RECT2 IS ABOVE RECT1
+  /**
+   * Gets a result document of a completed job
+   * @param jobId - The unique job identifier
+   * @param extension - The requested file extension, e.g. `xml` or `txt`
+   * @returns Promise resolving to the document content and its content type
+   * @throws {NotFoundException} When the job is unknown or has no document for this extension
+   */
+  async getResultDocument(
+    jobId: string,
+    extension: string,
+  ): Promise<{ content: Buffer; contentType: string }> {
+    this.getJobStatus(jobId);
 
-    return !noOverlap;
+    // SEVERAL KINDS SHARE AN EXTENSION, BUT A JOB HAS AT MOST ONE OF THEM
+    for (const [kind, document] of Object.entries(RESULT_DOCUMENTS)) {
+      if (document.extension !== extension) continue;
+
+      const content = await this._jobStore.getArtifact(
+        jobId,
+        `result.${kind}`,
+      );
+      if (content) {
+        return { content, contentType: document.contentType };
+      }
+    }
+
+    throw new NotFoundException(
+      `No .${extension} result available for job ${jobId}`,
+    );
   }
 
   /**
-   * Sends data through Server-Sent Events stream
-   * @param progressSubject - The SSE subject to send data through
-   * @param data - Data to send via SSE
+   * Stores a result document of a job for download
+   * @param jobId - The unique job identifier
+   * @param kind - The kind of result document
+   * @param content - The document content
+   * @returns Promise resolving to the download URL of the document
+   * @private
+   */
+  private async _saveResultDocument(
+    jobId: string,
+    kind: ResultDocumentKind,
+    content: Buffer,
+  ): Promise<string> {
+    await this._jobStore.saveArtifact(jobId, `result.${kind}`, content);
+    return `/ocr/jobs/${jobId}/result.${RESULT_DOCUMENTS[kind].extension}`;
+  }
+
+  /**
+   * Applies changes to a stored job status and persists it
+   * @param jobId - The unique job identifier
+   * @param changes - Fields to update, fields set to undefined are removed
+   * @private
+   */
+  private _updateJobStatus(jobId: string, changes: Partial<JobStatus>): void {
+    const jobStatus = this._jobStore.get(jobId);
+    if (!jobStatus) return;
+
+    this._jobStore.save({ ...jobStatus, ...changes });
+  }
+
+  /**
+   * Removes finished jobs whose retention time has expired
    * @private
    */
-  private _sendSse(progressSubject: Subject<MessageEvent>, data: unknown) {
-    progressSubject.next({ data: JSON.stringify(data) });
+  private _evictExpiredJobs(): void {
+    const expiredBefore = Date.now() - this._jobTtlMs;
+
+    for (const jobStatus of this._jobStore.list()) {
+      if (!jobStatus.completedAt) continue;
+      if (jobStatus.completedAt.getTime() > expiredBefore) continue;
+
+      this._jobStore.delete(jobStatus.jobId);
+      this._jobEvents.forget(jobStatus.jobId);
+      this._logger.debug(`Evicted expired job ${jobStatus.jobId}`);
+    }
+  }
+
+  /**
+   * Records the progress of a running job and reports it via SSE
+   * @param jobId - The unique job identifier
+   * @param stage - The current processing stage
+   * @param progress - Overall progress in percent
+   * @param message - Human-readable description of the progress
+   * @private
+   */
+  private _reportProgress(
+    jobId: string,
+    stage: ProgressStage,
+    progress: number,
+    message: string,
+  ): void {
+    this._updateJobStatus(jobId, { progress, stage });
+    this._sendSse(jobId, { type: 'progress', stage, progress, message });
   }
 
   /**
    * Gets the progress stream for a specific job
+   * Buffered events after `lastEventId` are replayed first, subscribers to a finished job only receive the terminal event
    * @param jobId - The unique job identifier
+   * @param lastEventId - Optional ID of the last event the client received, from the `Last-Event-ID` header
    * @returns Observable stream of progress events
-   * @throws {NotFoundException} When job ID is not found
+   * @throws {NotFoundException} When job ID is not found or the running job has no progress stream
    */
-  getProgressStream(jobId: string): Observable<MessageEvent> {
-    const progressSubject = this._progressStreams.get(jobId);
-    if (!progressSubject) {
+  getProgressStream(
+    jobId: string,
+    lastEventId?: string,
+  ): Observable<MessageEvent> {
+    const jobStatus = this._jobStore.get(jobId);
+    if (
+      !jobStatus ||
+      (!jobStatus.completedAt && !this._jobEvents.isOpen(jobId))
+    ) {
+      throw new NotFoundException(`Job ${jobId} not found`);
+    }
+
+    const afterEventId = parseInt(lastEventId || '0', 10) || 0;
+
+    // THE JOB MAY FINISH BETWEEN THIS CALL AND THE SUBSCRIPTION, SO THE STREAM IS CHOSEN ON SUBSCRIPTION
+    return defer(() => {
+      if (this._jobEvents.isOpen(jobId)) {
+        return this._jobEvents.subscribe(jobId, afterEventId);
+      }
+
+      const finishedJob = this._jobStore.get(jobId);
+      if (!finishedJob?.completedAt) return EMPTY;
+
+      // THE TERMINAL EVENT KEEPS THE ID IT WAS SENT WITH, CLIENTS THAT ALREADY RECEIVED IT GET NOTHING
+      const terminalEventId = this._jobEvents.getLastEventId(jobId);
+      if (terminalEventId && terminalEventId <= afterEventId) return EMPTY;
+
+      return of({
+        id: terminalEventId?.toString(),
+        data: JSON.stringify(this._createTerminalEvent(finishedJob)),
+      });
+    });
+  }
+
+  /**
+   * Creates the final SSE event of a finished job
+   * @param jobStatus - The status of the finished job
+   * @returns The `complete` event for completed jobs, the `cancelled` event for cancelled jobs, the `error` event otherwise
+   * @private
+   */
+  private _createTerminalEvent(jobStatus: JobStatus): Record<string, unknown> {
+    if (jobStatus.status === 'completed') {
+      return {
+        type: 'complete',
+        progress: 100,
+        message: 'OCR processing completed',
+        result: jobStatus.result,
+      };
+    }
+    if (jobStatus.status === 'cancelled') {
+      return { type: 'cancelled', message: CANCELLED_MESSAGE };
+    }
+    return {
+      type: 'error',
+      error: jobStatus.error,
+      errorCode: jobStatus.errorCode,
+    };
+  }
+
+  /**
+   * Ensures that an API key may access a job
+   * Jobs of other keys are reported as not found, so job IDs cannot be probed
+   * @param jobId - The unique job identifier
+   * @param apiKey - The API key of the request, undefined if authentication is disabled
+   * @throws {NotFoundException} When job ID is not found or the job belongs to another API key
+   */
+  assertJobAccess(jobId: string, apiKey?: ApiKeyConfig): void {
+    const jobStatus = this._jobStore.get(jobId);
+    if (
+      !jobStatus ||
+      (apiKey && !apiKey.admin && jobStatus.ownerKey !== apiKey.name)
+    ) {
       throw new NotFoundException(`Job ${jobId} not found`);
     }
-    return progressSubject.asObservable();
   }
 
   /**
@@ -332,13 +1427,73 @@ export class ImageRecognitionService {
    * @throws {NotFoundException} When job ID is not found
    */
   getJobStatus(jobId: string): JobStatus {
-    const jobStatus = this._jobStatuses.get(jobId);
+    const jobStatus = this._jobStore.get(jobId);
     if (!jobStatus) {
       throw new NotFoundException(`Job ${jobId} not found`);
     }
+
+    // CALLBACK HEADERS MAY CONTAIN CREDENTIALS AND ARE NEVER RETURNED
+    if (jobStatus.webhook) {
+      const { headers, ...webhook } = jobStatus.webhook;
+      return { ...jobStatus, webhook };
+    }
     return jobStatus;
   }
 
+  /**
+   * Waits for a job submitted with the sync strategy to finish, at most `SYNC_MAX_WAIT_MS`
+   * @param jobId - The unique job identifier
+   * @returns Promise resolving to the final job status, or undefined if the job did not finish in time
+   * @throws {NotFoundException} When job ID is not found
+   */
+  async waitForJob(jobId: string): Promise<JobStatus | undefined> {
+    if (this.getJobStatus(jobId).completedAt) {
+      return this.getJobStatus(jobId);
+    }
+
+    return firstValueFrom(
+      this._finishedSyncJobs.pipe(
+        filter((finishedJobId) => finishedJobId === jobId),
+        map(() => this.getJobStatus(jobId)),
+        timeout({ first: this._syncMaxWaitMs, with: () => of(undefined) }),
+      ),
+    );
+  }
+
+  /**
+   * Sends the webhook of a finished job again after all automatic delivery attempts failed
+   * The delivery runs in the background, new attempts are appended to the job's delivery log
+   * @param jobId - The unique job identifier
+   * @returns The job status with the restarted delivery
+   * @throws {NotFoundException} When job ID is not found or the job has no webhook
+   * @throws {ConflictException} When the webhook has not failed
+   */
+  redeliverWebhook(jobId: string): JobStatus {
+    const jobStatus = this._jobStore.get(jobId);
+    if (!jobStatus?.webhook) {
+      throw new NotFoundException(`No webhook found for job ${jobId}`);
+    }
+    if (jobStatus.webhook.status !== 'failed') {
+      throw new ConflictException(
+        `Webhook of job ${jobId} is ${jobStatus.webhook.status}, only failed webhooks can be redelivered`,
+      );
+    }
+
+    this._logger.debug(`Redelivering webhook for job ${jobId}`);
+    void this._sendWebhook(
+      jobId,
+      jobStatus.status === 'completed' || jobStatus.status === 'cancelled'
+        ? jobStatus.status
+        : 'failed',
+      jobStatus.webhook.url,
+      jobStatus.webhook.headers,
+      jobStatus.result,
+      jobStatus.error,
+      jobStatus.errorCode,
+    );
+    return this.getJobStatus(jobId);
+  }
+
   /**
    * Handles successful completion of OCR processing based on return strategy
    * @param jobId - The unique job identifier
@@ -346,7 +1501,6 @@ export class ImageRecognitionService {
    * @param result - The OCR processing result
    * @param webhookUrl - Optional webhook URL
    * @param callbackHeaders - Optional webhook headers
-   * @param progressSubject - Optional SSE subject
    * @private
    */
   private async _handleCompletion(
@@ -355,20 +1509,19 @@ export class ImageRecognitionService {
     result: any,
     webhookUrl?: string,
     callbackHeaders?: Record<string, string>,
-    progressSubject?: Subject<MessageEvent>,
   ) {
     switch (returnStrategy) {
       case 'sse':
-        if (progressSubject) {
-          this._sendSse(progressSubject, {
-            type: 'complete',
-            result,
-          });
-        }
+        this._sendSse(jobId, {
+          type: 'complete',
+          progress: 100,
+          message: 'OCR processing completed',
+          result,
+        });
         break;
       case 'webhook':
         if (webhookUrl) {
-          await this._sendWebhook(
+          void this._sendWebhook(
             jobId,
             'completed',
             webhookUrl,
@@ -381,6 +1534,9 @@ export class ImageRecognitionService {
         // STATUS IS ALREADY UPDATED IN JOB STATUS MAP
         this._logger.debug(`Job ${jobId} completed, available for polling`);
         break;
+      case 'sync':
+        this._finishedSyncJobs.next(jobId);
+        break;
     }
   }
 
@@ -391,7 +1547,7 @@ export class ImageRecognitionService {
    * @param error - The error message
    * @param webhookUrl - Optional webhook URL
    * @param callbackHeaders - Optional webhook headers
-   * @param progressSubject - Optional SSE subject
+   * @param errorCode - Optional code of the error, e.g. `TIMEOUT`
    * @private
    */
   private async _handleError(
@@ -400,27 +1556,27 @@ export class ImageRecognitionService {
     error: string,
     webhookUrl?: string,
     callbackHeaders?: Record<string, string>,
-    progressSubject?: Subject<MessageEvent>,
+    errorCode?: JobErrorCode,
   ) {
     switch (returnStrategy) {
       case 'sse':
-        if (progressSubject) {
-          this._sendSse(progressSubject, {
-            type: 'error',
-            error,
-          });
-        }
+        this._sendSse(jobId, {
+          type: 'error',
+          error,
+          errorCode,
+        });
         break;
 
       case 'webhook':
         if (webhookUrl) {
-          await this._sendWebhook(
+          void this._sendWebhook(
             jobId,
             'failed',
             webhookUrl,
             callbackHeaders,
             undefined,
             error,
+            errorCode,
           );
         }
         break;
@@ -429,55 +1585,123 @@ export class ImageRecognitionService {
         // STATUS IS ALREADY UPDATED IN JOB STATUS MAP
         this._logger.debug(`Job ${jobId} failed, available for polling`);
         break;
+
+      case 'sync':
+        this._finishedSyncJobs.next(jobId);
+        break;
+    }
+  }
+
+  /**
+   * Handles the cancellation of a job based on return strategy
+   * @param jobId - The unique job identifier
+   * @param returnStrategy - How to return results
+   * @param webhookUrl - Optional webhook URL
+   * @param callbackHeaders - Optional webhook headers
+   * @private
+   */
+  private async _handleCancellation(
+    jobId: string,
+    returnStrategy: ReturnStrategy,
+    webhookUrl?: string,
+    callbackHeaders?: Record<string, string>,
+  ) {
+    switch (returnStrategy) {
+      case 'sse':
+        this._sendSse(jobId, { type: 'cancelled', message: CANCELLED_MESSAGE });
+        break;
+
+      case 'webhook':
+        if (webhookUrl) {
+          void this._sendWebhook(
+            jobId,
+            'cancelled',
+            webhookUrl,
+            callbackHeaders,
+            undefined,
+            CANCELLED_MESSAGE,
+          );
+        }
+        break;
+
+      case 'polling':
+        // STATUS IS ALREADY UPDATED IN JOB STATUS MAP
+        this._logger.debug(`Job ${jobId} cancelled, available for polling`);
+        break;
+
+      case 'sync':
+        this._finishedSyncJobs.next(jobId);
+        break;
     }
   }
 
   /**
-   * Sends webhook notification for job completion or failure
+   * Sends webhook notification for job completion or failure, retrying failed attempts
+   * Every attempt is recorded in the job's webhook delivery log
    * @param jobId - The unique job identifier
    * @param status - Job completion status
    * @param webhookUrl - Target webhook URL
    * @param headers - Optional custom headers
    * @param result - Optional result data for completed jobs
-   * @param error - Optional error message for failed jobs
+   * @param error - Optional error message for failed and cancelled jobs
+   * @param errorCode - Optional error code for failed jobs
+   * @returns Promise that resolves when the delivery succeeded or all attempts failed
    * @private
    */
   private async _sendWebhook(
     jobId: string,
-    status: 'completed' | 'failed',
+    status: WebhookPayload['status'],
     webhookUrl: string,
     headers?: Record<string, string>,
     result?: any,
     error?: string,
-  ) {
-    try {
-      const payload: WebhookPayload = {
-        jobId,
-        status,
-        result,
-        error,
-        timestamp: new Date(),
-      };
+    errorCode?: JobErrorCode,
+  ): Promise<void> {
+    const payload: WebhookPayload = {
+      jobId,
+      status,
+      result,
+      error,
+      errorCode,
+      timestamp: new Date(),
+    };
 
-      const response = await fetch(`${webhookUrl}/${jobId}`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          ...headers,
-        },
-        body: JSON.stringify(payload),
-      });
+    this._updateWebhookDelivery(jobId, { status: 'pending' });
 
-      if (!response.ok) {
-        this._logger.warn(
-          `Webhook failed "${webhookUrl}/${jobId}": ${response.status} ${response.statusText}`,
-        );
-      } else {
-        this._logger.debug(`Webhook sent successfully for job ${jobId}`);
-      }
-    } catch (error) {
-      console.log(response.statusCode);
-      this._logger.error(`Webhook failed "${webhookUrl}/${jobId}":`, error);
-    }
+    const delivered = await this.webhookService.deliver(
+      `${webhookUrl}/${jobId}`,
+      payload,
+      headers,
+      this._jobStore.get(jobId)?.webhook?.keyId,
+      (attempt) => this._updateWebhookDelivery(jobId, {}, attempt),
+    );
+
+    this._updateWebhookDelivery(jobId, {
+      status: delivered ? 'delivered' : 'failed',
+    });
+  }
+
+  /**
+   * Updates the webhook delivery log of a job
+   * @param jobId - The unique job identifier
+   * @param changes - Delivery fields to update
+   * @param attempt - Optional attempt to append to the log
+   * @private
+   */
+  private _updateWebhookDelivery(
+    jobId: string,
+    changes: { status?: 'pending' | 'delivered' | 'failed' },
+    attempt?: WebhookDeliveryAttempt,
+  ): void {
+    const webhook = this._jobStore.get(jobId)?.webhook;
+    if (!webhook) return;
+
+    this._updateJobStatus(jobId, {
+      webhook: {
+        ...webhook,
+        ...changes,
+        attempts: attempt ? [...webhook.attempts, attempt] : webhook.attempts,
+      },
+    });
   }
 }
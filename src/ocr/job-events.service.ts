@@ -0,0 +1,120 @@
+import { Injectable } from '@nestjs/common';
+import { concat, defer, EMPTY, from, Observable, Subject } from 'rxjs';
+
+export interface MessageEvent {
+  id?: string;
+  data: string;
+}
+
+interface JobEventStream {
+  subject?: Subject<MessageEvent>;
+  events: MessageEvent[];
+  lastEventId: number;
+}
+
+// MAXIMUM NUMBER OF EVENTS KEPT PER JOB FOR REPLAY, OLDER EVENTS ARE DROPPED
+const MAX_BUFFERED_EVENTS = 100;
+
+/**
+ * Server-Sent Event streams of running jobs
+ * Every event gets an ID that is unique within its job, events are buffered while the job is running so that reconnecting clients can resume after the last event they received
+ */
+@Injectable()
+export class JobEventsService {
+  private _streams = new Map<string, JobEventStream>();
+
+  /**
+   * Opens the event stream of a job
+   * @param jobId - The unique job identifier
+   */
+  open(jobId: string): void {
+    this._streams.set(jobId, {
+      subject: new Subject<MessageEvent>(),
+      events: [],
+      lastEventId: 0,
+    });
+  }
+
+  /**
+   * Checks if the event stream of a job is open
+   * @param jobId - The unique job identifier
+   * @returns True if events of the job are currently streamed, false otherwise
+   */
+  isOpen(jobId: string): boolean {
+    return !!this._streams.get(jobId)?.subject;
+  }
+
+  /**
+   * Sends an event to all subscribers of a job and buffers it for replay
+   * Does nothing if the job has no open event stream
+   * @param jobId - The unique job identifier
+   * @param data - The event data, serialized as JSON
+   */
+  emit(jobId: string, data: unknown): void {
+    const stream = this._streams.get(jobId);
+    if (!stream?.subject) return;
+
+    stream.lastEventId++;
+    const event: MessageEvent = {
+      id: stream.lastEventId.toString(),
+      data: JSON.stringify(data),
+    };
+
+    stream.events.push(event);
+    if (stream.events.length > MAX_BUFFERED_EVENTS) stream.events.shift();
+
+    stream.subject.next(event);
+  }
+
+  /**
+   * Closes the event stream of a job, completing all subscriptions
+   * Buffered events are released, only the ID of the last event is kept
+   * @param jobId - The unique job identifier
+   */
+  close(jobId: string): void {
+    const stream = this._streams.get(jobId);
+    if (!stream?.subject) return;
+
+    stream.subject.complete();
+    stream.subject = undefined;
+    stream.events = [];
+  }
+
+  /**
+   * Removes all remaining state of a job
+   * @param jobId - The unique job identifier
+   */
+  forget(jobId: string): void {
+    this.close(jobId);
+    this._streams.delete(jobId);
+  }
+
+  /**
+   * Gets the ID of the last event sent for a job
+   * @param jobId - The unique job identifier
+   * @returns The event ID, or undefined if no event was sent for the job
+   */
+  getLastEventId(jobId: string): number | undefined {
+    const lastEventId = this._streams.get(jobId)?.lastEventId;
+    return lastEventId || undefined;
+  }
+
+  /**
+   * Subscribes to the events of a job, replaying buffered events first
+   * The buffer is read on subscription, so no event is lost or duplicated between replay and live events
+   * @param jobId - The unique job identifier
+   * @param afterEventId - Optional ID of the last event the client received, only newer events are replayed
+   * @returns Observable of buffered and live events, completes when the stream is closed
+   */
+  subscribe(jobId: string, afterEventId = 0): Observable<MessageEvent> {
+    return defer(() => {
+      const stream = this._streams.get(jobId);
+      if (!stream?.subject) return EMPTY;
+
+      const missedEvents = stream.events.filter(
+        (event) => parseInt(event.id, 10) > afterEventId,
+      );
+      return concat(from(missedEvents), stream.subject);
+    });
+  }
+}
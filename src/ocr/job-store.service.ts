@@ -0,0 +1,291 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { mkdirSync, readdirSync, readFileSync, promises as fs } from 'fs';
+import { join } from 'path';
+import { JobStatus } from '../types/return-strategy.types';
+
+// FIELDS UPDATED CONTINUOUSLY WHILE A JOB WAITS OR RUNS, CHANGES OF ONLY THESE FIELDS ARE NOT WRITTEN TO DISK
+const TRANSIENT_FIELDS: (keyof JobStatus)[] = [
+  'progress',
+  'stage',
+  'queuePosition',
+];
+
+/**
+ * Storage backend for job statuses and the files generated for them
+ * Status reads are synchronous so that status lookups stay cheap, writes may be persisted in the background
+ */
+export abstract class JobStore {
+  /**
+   * Gets a stored job status
+   * @param jobId - The unique job identifier
+   * @returns The job status, or undefined if the job is unknown
+   */
+  abstract get(jobId: string): JobStatus | undefined;
+
+  /**
+   * Stores a job status, replacing any previous version
+   * @param jobStatus - The job status to store
+   */
+  abstract save(jobStatus: JobStatus): void;
+
+  /**
+   * Removes a job status and all its artifacts from the store
+   * @param jobId - The unique job identifier
+   */
+  abstract delete(jobId: string): void;
+
+  /**
+   * Lists all stored job statuses
+   * @returns Array of all job statuses
+   */
+  abstract list(): JobStatus[];
+
+  /**
+   * Stores a file generated for a job, such as a rendered result document
+   * @param jobId - The unique job identifier
+   * @param name - The artifact name, e.g. `result.hocr`
+   * @param content - The artifact content
+   * @returns Promise that resolves when the artifact is stored
+   */
+  abstract saveArtifact(
+    jobId: string,
+    name: string,
+    content: Buffer,
+  ): Promise<void>;
+
+  /**
+   * Gets a file generated for a job
+   * @param jobId - The unique job identifier
+   * @param name - The artifact name
+   * @returns Promise resolving to the artifact content, or undefined if it does not exist
+   */
+  abstract getArtifact(
+    jobId: string,
+    name: string,
+  ): Promise<Buffer | undefined>;
+}
+
+/**
+ * Job store keeping all jobs in memory, jobs are lost on restart
+ */
+@Injectable()
+export class MemoryJobStore extends JobStore {
+  private _jobs = new Map<string, JobStatus>();
+  private _artifacts = new Map<string, Map<string, Buffer>>();
+
+  get(jobId: string): JobStatus | undefined {
+    return this._jobs.get(jobId);
+  }
+
+  save(jobStatus: JobStatus): void {
+    this._jobs.set(jobStatus.jobId, jobStatus);
+  }
+
+  delete(jobId: string): void {
+    this._jobs.delete(jobId);
+    this._artifacts.delete(jobId);
+  }
+
+  list(): JobStatus[] {
+    return [...this._jobs.values()];
+  }
+
+  async saveArtifact(
+    jobId: string,
+    name: string,
+    content: Buffer,
+  ): Promise<void> {
+    if (!this._artifacts.has(jobId)) this._artifacts.set(jobId, new Map());
+    this._artifacts.get(jobId).set(name, content);
+  }
+
+  async getArtifact(jobId: string, name: string): Promise<Buffer | undefined> {
+    return this._artifacts.get(jobId)?.get(name);
+  }
+}
+
+/**
+ * Job store keeping all jobs in memory and mirroring them to one JSON file per job
+ * Artifacts are only kept on disk, in one subdirectory per job
+ * Jobs are loaded from the directory on startup, so they survive restarts
+ * Custom webhook headers may contain credentials, they are kept in memory only
+ */
+export class FileJobStore extends MemoryJobStore {
+  private readonly _logger = new Logger(FileJobStore.name);
+  private _writes = new Map<string, Promise<void>>();
+
+  constructor(private readonly _directory: string) {
+    super();
+    this._load();
+  }
+
+  save(jobStatus: JobStatus): void {
+    const previous = this.get(jobStatus.jobId);
+    super.save(jobStatus);
+    if (previous && this._hasOnlyTransientChanges(previous, jobStatus)) return;
+
+    const content = JSON.stringify(this._toPersisted(jobStatus));
+    this._enqueueWrite(jobStatus.jobId, () =>
+      this._writeFile(jobStatus.jobId, content),
+    );
+  }
+
+  delete(jobId: string): void {
+    super.delete(jobId);
+    this._enqueueWrite(jobId, async () => {
+      await fs.rm(this._getPath(jobId), { force: true });
+      await fs.rm(join(this._directory, jobId), {
+        recursive: true,
+        force: true,
+      });
+    });
+  }
+
+  async saveArtifact(
+    jobId: string,
+    name: string,
+    content: Buffer,
+  ): Promise<void> {
+    const artifactDir = join(this._directory, jobId);
+    await fs.mkdir(artifactDir, { recursive: true });
+    await fs.writeFile(join(artifactDir, name), content);
+  }
+
+  async getArtifact(jobId: string, name: string): Promise<Buffer | undefined> {
+    try {
+      return await fs.readFile(join(this._directory, jobId, name));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return undefined;
+      throw error;
+    }
+  }
+
+  /**
+   * Loads all persisted jobs from the store directory
+   * @private
+   */
+  private _load(): void {
+    mkdirSync(this._directory, { recursive: true });
+
+    for (const fileName of readdirSync(this._directory)) {
+      if (!fileName.endsWith('.json')) continue;
+
+      try {
+        const content = readFileSync(join(this._directory, fileName), 'utf8');
+        const jobStatus: JobStatus = JSON.parse(content);
+
+        // RESTORE DATE FIELDS FROM THEIR JSON REPRESENTATION
+        jobStatus.createdAt = new Date(jobStatus.createdAt);
+        if (jobStatus.completedAt) {
+          jobStatus.completedAt = new Date(jobStatus.completedAt);
+        }
+        for (const attempt of jobStatus.webhook?.attempts || []) {
+          attempt.timestamp = new Date(attempt.timestamp);
+        }
+
+        super.save(jobStatus);
+      } catch (error) {
+        this._logger.warn(
+          `Skipping unreadable job file ${fileName}: ${error.message}`,
+        );
+      }
+    }
+
+    this._logger.log(
+      `Loaded ${this.list().length} jobs from ${this._directory}`,
+    );
+  }
+
+  /**
+   * Checks if an update changes nothing but transient fields such as the progress
+   * Unchanged fields keep their object references, because updates are applied by spreading the previous status
+   * @param previous - The stored job status
+   * @param next - The updated job status
+   * @returns True if only transient fields differ, false otherwise
+   * @private
+   */
+  private _hasOnlyTransientChanges(
+    previous: JobStatus,
+    next: JobStatus,
+  ): boolean {
+    const fields = new Set([
+      ...Object.keys(previous),
+      ...Object.keys(next),
+    ] as (keyof JobStatus)[]);
+
+    return [...fields].every(
+      (field) =>
+        TRANSIENT_FIELDS.includes(field) || previous[field] === next[field],
+    );
+  }
+
+  /**
+   * Gets the form of a job status that is written to disk, without the custom webhook headers
+   * @param jobStatus - The job status
+   * @returns The job status to serialize
+   * @private
+   */
+  private _toPersisted(jobStatus: JobStatus): JobStatus {
+    if (!jobStatus.webhook?.headers) return jobStatus;
+    return {
+      ...jobStatus,
+      webhook: { ...jobStatus.webhook, headers: undefined },
+    };
+  }
+
+  /**
+   * Chains a write operation behind all pending writes of the same job
+   * @param jobId - The unique job identifier
+   * @param write - The write operation to run
+   * @private
+   */
+  private _enqueueWrite(jobId: string, write: () => Promise<void>): void {
+    const previous = this._writes.get(jobId) || Promise.resolve();
+    const next = previous
+      .then(write)
+      .catch((error) => {
+        this._logger.error(`Failed to persist job ${jobId}: ${error.message}`);
+      })
+      .finally(() => {
+        // FORGET THE CHAIN ONCE NO NEWER WRITE HAS BEEN QUEUED
+        if (this._writes.get(jobId) === next) this._writes.delete(jobId);
+      });
+    this._writes.set(jobId, next);
+  }
+
+  /**
+   * Atomically writes a job file by writing to a temporary file and renaming it
+   * @param jobId - The unique job identifier
+   * @param content - The serialized job status
+   * @returns Promise that resolves when the file is written
+   * @private
+   */
+  private async _writeFile(jobId: string, content: string): Promise<void> {
+    const path = this._getPath(jobId);
+    await fs.writeFile(`${path}.tmp`, content);
+    await fs.rename(`${path}.tmp`, path);
+  }
+
+  /**
+   * Gets the file path of a job
+   * @param jobId - The unique job identifier
+   * @returns Path of the job's JSON file
+   * @private
+   */
+  private _getPath(jobId: string): string {
+    return join(this._directory, `${jobId}.json`);
+  }
+}
+
+/**
+ * Creates the job store configured via the `JOB_STORE` environment variable
+ * @returns A file-backed store for `JOB_STORE=file`, an in-memory store otherwise
+ */
+export function createJobStore(): JobStore {
+  if (process.env.JOB_STORE === 'file') {
+    return new FileJobStore(
+      process.env.JOB_STORE_DIR || join(process.cwd(), 'data', 'jobs'),
+    );
+  }
+  return new MemoryJobStore();
+}
@@ -0,0 +1,194 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { OcrService } from './ocr.service';
+import { PageExtractorService } from './page-extractor.service';
+import { LanguagePackService } from './language-pack.service';
+import { nanoid } from '../types/nanoid.function';
+import { LanguageDetection, LanguageScore } from '../types/ocr.types';
+import { JobError } from '../types/job-error.class';
+
+// SCRIPTS AS REPORTED BY TESSERACT OSD FOR COMMON LANGUAGES, LANGUAGES MISSING HERE ARE NEVER EXCLUDED BY SCRIPT
+const LANGUAGE_SCRIPTS: Record<string, string> = {
+  deu: 'Latin',
+  eng: 'Latin',
+  fra: 'Latin',
+  spa: 'Latin',
+  ita: 'Latin',
+  nld: 'Latin',
+  por: 'Latin',
+  pol: 'Latin',
+  ces: 'Latin',
+  dan: 'Latin',
+  swe: 'Latin',
+  nor: 'Latin',
+  fin: 'Latin',
+  hun: 'Latin',
+  ron: 'Latin',
+  tur: 'Latin',
+  rus: 'Cyrillic',
+  ukr: 'Cyrillic',
+  bul: 'Cyrillic',
+  srp: 'Cyrillic',
+  ell: 'Greek',
+  ara: 'Arabic',
+  fas: 'Arabic',
+  heb: 'Hebrew',
+  chi_sim: 'Han',
+  chi_tra: 'Han',
+  jpn: 'Japanese',
+  kor: 'Hangul',
+  tha: 'Thai',
+  hin: 'Devanagari',
+};
+
+// THE DETECTION PASS RUNS ON A DOWNSCALED COPY OF THE FIRST PAGE
+const SAMPLE_MAX_SIZE = 1600;
+
+// TWO LANGUAGES SCORING WITHIN THIS MARGIN ARE COMBINED, E.G. FOR MIXED GERMAN AND ENGLISH DOCUMENTS
+const COMBINATION_MARGIN = 0.03;
+const MIN_COMBINATION_SCORE = 0.6;
+
+@Injectable()
+export class LanguageDetectionService {
+  private readonly _logger = new Logger(LanguageDetectionService.name);
+
+  constructor(
+    private readonly _ocrService: OcrService,
+    private readonly _pageExtractorService: PageExtractorService,
+    private readonly _languagePackService: LanguagePackService,
+  ) {}
+
+  /**
+   * Detects the language of a page by recognizing a sample of it with every candidate language and comparing the word confidences
+   * Candidates are narrowed down to languages matching the script detected by Tesseract OSD first
+   * @param pagePath - Path to the page image, usually the first page of the document
+   * @param workspace - Temp directory of the worker, the page sample is created in it
+   * @param languages - Optional candidate languages, defaults to all installed languages
+   * @param signal - Optional signal to abort the detection
+   * @returns Promise resolving to the best language or combination of two languages, with the score of every candidate
+   * @throws {Error} When none of the candidate languages is installed, or the detection was aborted
+   * @throws {JobError} When Tesseract exceeded its memory or CPU time limit
+   */
+  async detectLanguage(
+    pagePath: string,
+    workspace: string,
+    languages?: string[],
+    signal?: AbortSignal,
+  ): Promise<LanguageDetection> {
+    const installed = await this._languagePackService.getInstalledLanguages();
+    let candidates = languages
+      ? languages.filter((language) => installed.includes(language))
+      : installed;
+    if (candidates.length === 0) {
+      throw new Error('None of the candidate languages is installed');
+    }
+
+    // EXCLUDE LANGUAGES WRITTEN IN ANOTHER SCRIPT, UNLESS NONE WOULD BE LEFT
+    const script = await this._ocrService
+      .detectOrientation(pagePath, signal)
+      .then((detection) => detection.script)
+      .catch((error): undefined => {
+        if (error instanceof JobError) throw error;
+        this._logger.warn(`Script detection failed: ${error.message}`);
+        return undefined;
+      });
+    signal?.throwIfAborted();
+    const sameScript = candidates.filter(
+      (language) =>
+        !LANGUAGE_SCRIPTS[language] || LANGUAGE_SCRIPTS[language] === script,
+    );
+    if (script && sameScript.length > 0) candidates = sameScript;
+
+    const samplePath = join(workspace, `sample_${nanoid()}.png`);
+    try {
+      await this._pageExtractorService.scaleDown(
+        pagePath,
+        SAMPLE_MAX_SIZE,
+        samplePath,
+        signal,
+      );
+
+      // RECOGNIZE THE SAMPLE ONCE PER CANDIDATE, ONE AFTER ANOTHER
+      const scores: LanguageScore[] = [];
+      for (const language of candidates) {
+        scores.push({
+          language,
+          score: await this._scoreLanguage(
+            samplePath,
+            workspace,
+            language,
+            signal,
+          ),
+        });
+      }
+      scores.sort((a, b) => b.score - a.score);
+
+      const [best, second] = scores;
+      const combine =
+        second &&
+        best.score - second.score <= COMBINATION_MARGIN &&
+        second.score >= MIN_COMBINATION_SCORE;
+      const detection: LanguageDetection = {
+        language: combine
+          ? `${best.language}+${second.language}`
+          : best.language,
+        script,
+        score: best.score,
+        candidates: scores,
+      };
+
+      this._logger.debug(
+        `Detected language ${detection.language} (score ${detection.score}, script ${script || 'unknown'})`,
+      );
+      return detection;
+    } finally {
+      await fs.rm(samplePath, { force: true });
+    }
+  }
+
+  /**
+   * Scores how well a language fits a page sample
+   * @param samplePath - Path to the page sample
+   * @param workspace - Temp directory of the worker, the Tesseract output files are created in it
+   * @param language - The language code
+   * @param signal - Optional signal to abort recognition
+   * @returns Promise resolving to the average confidence (0-1) of the recognized words containing at least two letters, 0 if recognition fails
+   * @throws {Error} When recognition was aborted
+   * @throws {JobError} When Tesseract exceeded its memory or CPU time limit
+   * @private
+   */
+  private async _scoreLanguage(
+    samplePath: string,
+    workspace: string,
+    language: string,
+    signal?: AbortSignal,
+  ): Promise<number> {
+    try {
+      const { pages } = await this._ocrService.processImage(
+        [samplePath],
+        workspace,
+        { language },
+        undefined,
+        signal,
+      );
+
+      // SINGLE CHARACTERS AND PUNCTUATION ARE RECOGNIZED WELL IN ANY LANGUAGE
+      const words = (pages[0]?.words || []).filter((word) =>
+        /\p{L}.*\p{L}/u.test(word.data.text),
+      );
+      if (words.length === 0) return 0;
+
+      const confidence =
+        words.reduce((sum, word) => sum + (word.data.confidence || 0), 0) /
+        words.length;
+      return Math.round(confidence * 100) / 100;
+    } catch (error) {
+      if (signal?.aborted || error instanceof JobError) throw error;
+      this._logger.warn(
+        `Language detection pass for ${language} failed: ${error.message}`,
+      );
+      return 0;
+    }
+  }
+}
@@ -0,0 +1,92 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  UploadedFile,
+  UseInterceptors,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { Express } from 'express';
+import 'multer';
+import { Admin } from '../common/api-key.decorators';
+import { LanguagePackService } from './language-pack.service';
+import {
+  LanguagePack,
+  LanguagePackValidation,
+} from '../types/language-pack.types';
+
+// LARGEST OFFICIAL TESSDATA FILES ARE AROUND 50 MB
+const MAX_LANGUAGE_PACK_SIZE = 100 * 1024 * 1024;
+
+@Admin()
+@Controller('admin/languages')
+export class LanguagePackController {
+  constructor(private readonly _languagePackService: LanguagePackService) {}
+
+  /**
+   * Lists the installed language packs
+   * @returns One entry per installed language
+   */
+  @Get()
+  listLanguages(): Promise<LanguagePack[]> {
+    return this._languagePackService.list();
+  }
+
+  /**
+   * Installs or replaces a language pack
+   * @param file - The uploaded `.traineddata` file
+   * @param body - Optional `language` code, defaults to the file name without extension
+   * @returns The installed language pack
+   * @throws {BadRequestException} When no `.traineddata` file is uploaded or the language code is invalid
+   * @throws {ConflictException} When `TESSDATA_DIR` is not configured
+   * @throws {UnprocessableEntityException} When Tesseract cannot load the language pack
+   */
+  @Post()
+  @UseInterceptors(
+    FileInterceptor('file', { limits: { fileSize: MAX_LANGUAGE_PACK_SIZE } }),
+  )
+  installLanguage(
+    @UploadedFile() file: Express.Multer.File,
+    @Body() body: { language?: string },
+  ): Promise<LanguagePack> {
+    if (!file || !file.originalname.endsWith('.traineddata')) {
+      throw new BadRequestException('No .traineddata file provided');
+    }
+
+    const language =
+      body?.language || file.originalname.replace(/\.traineddata$/, '');
+    return this._languagePackService.install(language, file.buffer);
+  }
+
+  /**
+   * Checks that Tesseract can load an installed language pack
+   * @param language - The language code
+   * @returns The validation result
+   * @throws {NotFoundException} When the language is not installed
+   */
+  @Post(':language/validate')
+  @HttpCode(HttpStatus.OK)
+  validateLanguage(
+    @Param('language') language: string,
+  ): Promise<LanguagePackValidation> {
+    return this._languagePackService.validate(language);
+  }
+
+  /**
+   * Removes a language pack from `TESSDATA_DIR`
+   * @param language - The language code
+   * @throws {ConflictException} When `TESSDATA_DIR` is not configured
+   * @throws {NotFoundException} When there is no pack for the language in `TESSDATA_DIR`
+   */
+  @Delete(':language')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  removeLanguage(@Param('language') language: string): Promise<void> {
+    return this._languagePackService.remove(language);
+  }
+}
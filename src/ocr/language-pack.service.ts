@@ -0,0 +1,265 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  UnprocessableEntityException,
+} from '@nestjs/common';
+import Jimp from 'jimp';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { OcrService } from './ocr.service';
+import { nanoid } from '../types/nanoid.function';
+import {
+  LanguagePack,
+  LanguagePackValidation,
+} from '../types/language-pack.types';
+
+// LANGUAGE CODES AS USED IN TESSDATA FILE NAMES, E.G. `deu`, `chi_sim` OR `deu_latf`
+const LANGUAGE_CODE = /^[a-z][a-z0-9_]*$/i;
+
+const TRAINEDDATA_EXTENSION = '.traineddata';
+
+// LANGUAGE PACKS ADDED OR REMOVED ON DISK OUTSIDE THE API ARE NOTICED AFTER THIS TIME AT THE LATEST
+const INSTALLED_CACHE_TTL_MS = 60 * 1000;
+
+@Injectable()
+export class LanguagePackService {
+  private readonly _logger = new Logger(LanguagePackService.name);
+  private readonly _tessdataDir = process.env.TESSDATA_DIR;
+  private readonly _tempDir =
+    process.env.TESSERACT_TEMP_DIR || '/tmp/tesseract-api';
+  private _installed?: Promise<string[]>;
+  private _installedAt = 0;
+
+  constructor(private readonly _ocrService: OcrService) {}
+
+  /**
+   * Gets the installed OCR languages, cached for a minute or until a language pack is installed or removed
+   * @param refresh - Whether to ask Tesseract again instead of using the cached list
+   * @returns Promise resolving to the language codes
+   */
+  async getInstalledLanguages(refresh = false): Promise<string[]> {
+    if (
+      refresh ||
+      !this._installed ||
+      Date.now() - this._installedAt > INSTALLED_CACHE_TTL_MS
+    ) {
+      this._installed = this._ocrService.getInstalledLanguages();
+      this._installedAt = Date.now();
+    }
+    const languages = await this._installed;
+
+    // TESSERACT MAY BE UNAVAILABLE FOR A MOMENT, DO NOT KEEP AN EMPTY LIST
+    if (languages.length === 0) this._installed = undefined;
+    return languages;
+  }
+
+  /**
+   * Checks that languages are installed before a job is queued, instead of failing inside Tesseract
+   * @param languages - Language codes, languages combined with `+` must be split beforehand
+   * @throws {BadRequestException} When a language is not installed
+   */
+  async assertInstalled(languages: string[]): Promise<void> {
+    const installed = await this.getInstalledLanguages();
+
+    // WITHOUT A LANGUAGE LIST, TESSERACT ITSELF REPORTS THE PROBLEM
+    if (installed.length === 0) {
+      this._logger.warn('Cannot validate languages, no languages installed');
+      return;
+    }
+
+    const missing = [...new Set(languages)].filter(
+      (language) => !installed.includes(language),
+    );
+    if (missing.length > 0) {
+      throw new BadRequestException(
+        `Language not installed: ${missing.join(', ')}. Installed languages: ${installed.join(', ')}`,
+      );
+    }
+  }
+
+  /**
+   * Lists the installed language packs, always as currently found by Tesseract
+   * @returns Promise resolving to one entry per language, with file details for packs in `TESSDATA_DIR`
+   */
+  async list(): Promise<LanguagePack[]> {
+    const languages = await this.getInstalledLanguages(true);
+
+    return Promise.all(
+      languages.map(async (language): Promise<LanguagePack> => {
+        const stats = this._tessdataDir
+          ? await fs.stat(this._getPackPath(language)).catch(() => undefined)
+          : undefined;
+        return {
+          language,
+          size: stats?.size,
+          modifiedAt: stats?.mtime,
+          removable: stats !== undefined,
+        };
+      }),
+    );
+  }
+
+  /**
+   * Installs or replaces a language pack in `TESSDATA_DIR`
+   * The pack is validated in a separate directory first, so a broken upload never replaces a working pack
+   * @param language - The language code, used as file name
+   * @param data - Content of the `.traineddata` file
+   * @returns Promise resolving to the installed language pack
+   * @throws {ConflictException} When `TESSDATA_DIR` is not configured
+   * @throws {BadRequestException} When the language code is invalid
+   * @throws {UnprocessableEntityException} When Tesseract cannot load the language pack
+   */
+  async install(language: string, data: Buffer): Promise<LanguagePack> {
+    const tessdataDir = this._assertManageable();
+    this._assertLanguageCode(language);
+
+    const stagingDir = join(this._tempDir, `tessdata_${nanoid()}`);
+    try {
+      await fs.mkdir(stagingDir, { recursive: true });
+      const stagingPath = join(
+        stagingDir,
+        `${language}${TRAINEDDATA_EXTENSION}`,
+      );
+      await fs.writeFile(stagingPath, data);
+
+      const error = await this._verify(language, stagingDir);
+      if (error) {
+        throw new UnprocessableEntityException(
+          `Invalid language pack: ${error}`,
+        );
+      }
+
+      // THE TEMP DIRECTORY MAY BE ON ANOTHER FILE SYSTEM, SO COPY NEXT TO THE TARGET FIRST
+      // AND RENAME OVER IT, A RUNNING TESSERACT NEVER READS A HALF-WRITTEN PACK
+      await fs.mkdir(tessdataDir, { recursive: true });
+      const partialPath = `${this._getPackPath(language)}.${nanoid()}.tmp`;
+      try {
+        await fs.copyFile(stagingPath, partialPath);
+        await fs.rename(partialPath, this._getPackPath(language));
+      } finally {
+        await fs.rm(partialPath, { force: true });
+      }
+    } finally {
+      await fs.rm(stagingDir, { recursive: true, force: true });
+    }
+
+    this._installed = undefined;
+    this._logger.log(`Installed language pack ${language}`);
+
+    const stats = await fs.stat(this._getPackPath(language));
+    return {
+      language,
+      size: stats.size,
+      modifiedAt: stats.mtime,
+      removable: true,
+    };
+  }
+
+  /**
+   * Checks that Tesseract can load an installed language pack
+   * @param language - The language code
+   * @returns Promise resolving to the validation result, including the Tesseract error for broken packs
+   * @throws {NotFoundException} When the language is not installed
+   */
+  async validate(language: string): Promise<LanguagePackValidation> {
+    const installed = await this.getInstalledLanguages(true);
+    if (!installed.includes(language)) {
+      throw new NotFoundException(`Language ${language} not installed`);
+    }
+
+    const error = await this._verify(language);
+    return error
+      ? { language, valid: false, error }
+      : { language, valid: true };
+  }
+
+  /**
+   * Removes a language pack from `TESSDATA_DIR`
+   * @param language - The language code
+   * @returns Promise that resolves when the pack is removed
+   * @throws {ConflictException} When `TESSDATA_DIR` is not configured
+   * @throws {NotFoundException} When there is no pack for the language in `TESSDATA_DIR`
+   */
+  async remove(language: string): Promise<void> {
+    this._assertManageable();
+    this._assertLanguageCode(language);
+
+    try {
+      await fs.unlink(this._getPackPath(language));
+    } catch (error) {
+      if (error.code === 'ENOENT') {
+        throw new NotFoundException(`Language pack ${language} not found`);
+      }
+      throw error;
+    }
+
+    this._installed = undefined;
+    this._logger.log(`Removed language pack ${language}`);
+  }
+
+  /**
+   * Recognizes a blank test image with a language to check that Tesseract can load its data
+   * @param language - The language code
+   * @param tessdataDir - Optional directory to load the language data from, defaults to `TESSDATA_DIR`
+   * @returns Promise resolving to the Tesseract error, or undefined if the language could be loaded
+   * @private
+   */
+  private async _verify(
+    language: string,
+    tessdataDir?: string,
+  ): Promise<string | undefined> {
+    const imagePath = join(this._tempDir, `verify_${nanoid()}.png`);
+    try {
+      await new Jimp(200, 50, 0xffffffff).writeAsync(imagePath);
+      await this._ocrService.verifyLanguage(imagePath, language, tessdataDir);
+      return undefined;
+    } catch (error) {
+      this._logger.warn(`Language pack ${language} failed: ${error.message}`);
+      return error.message;
+    } finally {
+      await fs.rm(imagePath, { force: true });
+    }
+  }
+
+  /**
+   * Ensures language packs can be installed and removed
+   * @returns The configured language data directory
+   * @throws {ConflictException} When `TESSDATA_DIR` is not configured
+   * @private
+   */
+  private _assertManageable(): string {
+    if (!this._tessdataDir) {
+      throw new ConflictException(
+        'Language packs can only be managed when TESSDATA_DIR is configured',
+      );
+    }
+    return this._tessdataDir;
+  }
+
+  /**
+   * Validates a language code before it is used as file name
+   * @param language - The language code
+   * @throws {BadRequestException} When the code contains characters other than letters, digits and underscores
+   * @private
+   */
+  private _assertLanguageCode(language: string): void {
+    if (!LANGUAGE_CODE.test(language)) {
+      throw new BadRequestException(
+        `Invalid language code: ${language}, use letters, digits and underscores like deu or chi_sim`,
+      );
+    }
+  }
+
+  /**
+   * Gets the path of a language pack in `TESSDATA_DIR`
+   * @param language - The language code
+   * @returns The path of the `.traineddata` file
+   * @private
+   */
+  private _getPackPath(language: string): string {
+    return join(this._tessdataDir, `${language}${TRAINEDDATA_EXTENSION}`);
+  }
+}
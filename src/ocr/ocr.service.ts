@@ -2,15 +2,64 @@ import { Injectable, Logger } from '@nestjs/common';
 import { ChildProcess, spawn } from 'child_process';
 import { promises as fs } from 'fs';
 import { join } from 'path';
-import { DimensionData, TextContent } from '../types/ocr.types';
+import {
+  DimensionData,
+  EffectiveTesseractParameters,
+  OcrOptions,
+  OrientationDetection,
+  OutputFormat,
+  PageRotation,
+  TextContent,
+} from '../types/ocr.types';
 import { nanoid } from '../types/nanoid.function';
-import { parseTsvOutput } from '../types/parse-tsv-output.function';
+import { JobError } from '../types/job-error.class';
+import {
+  parseTsvOutput,
+  TsvPageResult,
+} from '../types/parse-tsv-output.function';
+
+// TESSERACT CONFIG AND OUTPUT FILE EXTENSION FOR EACH RENDERED DOCUMENT FORMAT
+const DOCUMENT_RENDERERS: Record<
+  Exclude<OutputFormat, 'json'>,
+  { config: string; extension: string }
+> = {
+  hocr: { config: 'hocr', extension: 'hocr' },
+  alto: { config: 'alto', extension: 'xml' },
+  pdf: { config: 'pdf', extension: 'pdf' },
+};
+
+// MODES TESSERACT USES WHEN `--psm` OR `--oem` IS NOT PASSED: FULLY AUTOMATIC PAGE SEGMENTATION, DEFAULT ENGINE
+const DEFAULT_PSM = 3;
+const DEFAULT_OEM = 3;
+
+// TESSDATA FILES LISTED BY `--list-langs` THAT CANNOT BE USED AS OCR LANGUAGE
+const NON_LANGUAGE_DATA = ['osd', 'equ'];
+
+export interface OcrEngineResult {
+  pages: TsvPageResult[];
+  document?: Buffer;
+}
 
 @Injectable()
 export class OcrService {
   private readonly _logger = new Logger(OcrService.name);
   private readonly _tempDir =
     process.env.TESSERACT_TEMP_DIR || '/tmp/tesseract-api';
+  private readonly _tessdataDir = process.env.TESSDATA_DIR;
+
+  // LIMITS FOR EVERY RECOGNITION PROCESS, 0 DISABLES A LIMIT
+  private readonly _threadLimit = parseInt(
+    process.env.TESSERACT_THREAD_LIMIT || '0',
+    10,
+  );
+  private readonly _memoryLimitMb = parseInt(
+    process.env.TESSERACT_MEMORY_LIMIT_MB || '0',
+    10,
+  );
+  private readonly _cpuLimitSeconds = parseInt(
+    process.env.TESSERACT_CPU_LIMIT_SECONDS || '0',
+    10,
+  );
 
   constructor() {
     void this._ensureTempDir();
@@ -144,25 +193,69 @@ export class OcrService {
   }
 
   /**
-   * Processes an image file using Tesseract OCR
-   * @param inputPath - Path to the input image file
-   * @param language - OCR language code (e.g., 'deu', 'eng', 'deu+eng'). Defaults to 'deu'
-   * @returns Promise resolving to array of OCR results with text and bounding boxes
-   * @throws {Error} When OCR processing fails
+   * Processes one or more page images using Tesseract OCR
+   * @param inputPaths - Paths to the input image files, one per page
+   * @param workspace - Temp directory of the worker, the Tesseract output files are created in it
+   * @param options - OCR options, the language defaults to 'deu'
+   * @param onProgress - Optional callback receiving the recognition progress in percent when recognition starts and whenever a page is finished
+   * @param signal - Optional signal to abort processing, kills the Tesseract process
+   * @returns Promise resolving to OCR results with text and bounding boxes (one entry per input path) and the document rendered in the requested output format
+   * @throws {Error} When OCR processing fails or was aborted
+   * @throws {JobError} When Tesseract exceeded its memory or CPU time limit
    */
-  async processImage(inputPath: string, language: string = 'deu'): Promise<DimensionData<TextContent>[]> {
+  async processImage(
+    inputPaths: string[],
+    workspace: string,
+    options: OcrOptions = {},
+    onProgress?: (percent: number) => void,
+    signal?: AbortSignal,
+  ): Promise<OcrEngineResult> {
     // CHECK IF TESSERACT IS AVAILABLE
     await this._checkTesseractAvailability();
     const jobId = nanoid();
-    const outputBasePath = join(this._tempDir, `output_${jobId}`);
+    const outputBasePath = join(workspace, `output_${jobId}`);
     const tsvOutputPath = `${outputBasePath}.tsv`;
 
     // TRACK WHICH FILES WERE ACTUALLY CREATED
     const createdFiles: string[] = [];
 
     try {
-      // RUN TESSERACT WITH TSV OUTPUT FOR DETAILED WORD-LEVEL DATA
-      await this._runTesseract(inputPath, outputBasePath, language);
+      // MULTIPLE PAGES ARE PASSED TO TESSERACT AS A LIST FILE WITH ONE IMAGE PATH PER LINE
+      let inputPath = inputPaths[0];
+      if (inputPaths.length > 1) {
+        inputPath = join(workspace, `pages_${jobId}.txt`);
+        await fs.writeFile(inputPath, inputPaths.join('\n'));
+        createdFiles.push(inputPath);
+      }
+
+      // RUN TESSERACT WITH TSV OUTPUT FOR DETAILED WORD-LEVEL DATA, PLUS THE REQUESTED DOCUMENT FORMAT
+      const renderer = DOCUMENT_RENDERERS[options.outputFormat];
+      const configs = renderer ? ['tsv', renderer.config] : ['tsv'];
+      onProgress?.(0);
+      await this._runTesseract(
+        inputPath,
+        outputBasePath,
+        options,
+        configs,
+        (pageNumber) => {
+          // A PAGE STARTS WHEN THE PREVIOUS ONE IS FINISHED, THE FIRST PAGE IS REPORTED ABOVE
+          if (pageNumber > 1) {
+            onProgress?.(
+              Math.round(((pageNumber - 1) / inputPaths.length) * 100),
+            );
+          }
+        },
+        signal,
+      );
+      onProgress?.(100);
+
+      // READ RENDERED DOCUMENT
+      let document: Buffer;
+      if (renderer) {
+        const documentPath = `${outputBasePath}.${renderer.extension}`;
+        document = await fs.readFile(documentPath);
+        createdFiles.push(documentPath);
+      }
 
       // CHECK IF TSV OUTPUT WAS CREATED
       try {
@@ -176,13 +269,33 @@ export class OcrService {
       }
 
       // PARSE TSV OUTPUT TO OUR DATA MODEL
-      const result = await this._parseTsvOutput(tsvOutputPath);
+      const pages = await this._parseTsvOutput(tsvOutputPath);
 
       // ADD A SMALL DELAY TO SHOW THE FINAL PROGRESS STEP
       await new Promise((resolve) => setTimeout(resolve, 100));
 
-      return result;
+      // RETURN ONE ENTRY PER INPUT PAGE, EVEN IF NO TEXT WAS DETECTED ON IT
+      return {
+        pages: inputPaths.map(
+          (_, index) =>
+            pages.find((page) => page.pageNumber === index + 1) || {
+              pageNumber: index + 1,
+              words: [],
+              layout: [],
+            },
+        ),
+        document,
+      };
     } catch (error) {
+      if (signal?.aborted || error instanceof JobError) {
+        // THE KILLED PROCESS MAY HAVE STARTED WRITING ITS OUTPUT
+        const renderer = DOCUMENT_RENDERERS[options.outputFormat];
+        createdFiles.push(tsvOutputPath);
+        if (renderer) {
+          createdFiles.push(`${outputBasePath}.${renderer.extension}`);
+        }
+        throw error;
+      }
       this._logger.error(`OCR processing failed for job ${jobId}:`, error);
       throw error;
     } finally {
@@ -195,30 +308,186 @@ export class OcrService {
     }
   }
 
+  /**
+   * Detects the orientation and script of a page image using Tesseract's orientation and script detection (OSD)
+   * Requires the `osd` language data to be installed
+   * @param inputPath - Path to the page image
+   * @param signal - Optional signal to abort the detection, kills the Tesseract process
+   * @returns Promise resolving to the clockwise rotation that makes the page upright and the detected script
+   * @throws {Error} When Tesseract fails, reports no orientation or was aborted
+   * @throws {JobError} When Tesseract exceeded its memory or CPU time limit
+   */
+  async detectOrientation(
+    inputPath: string,
+    signal?: AbortSignal,
+  ): Promise<OrientationDetection> {
+    const output = await new Promise<string>((resolve, reject) => {
+      const args = [inputPath, 'stdout', '--psm', '0', ...this._tessdataArgs()];
+      this._logger.debug(`Running Tesseract with args: ${args.join(' ')}`);
+
+      const tesseract = this._spawnTesseract(args, signal);
+
+      let stdout = '';
+      let stderr = '';
+      tesseract.stdout?.on('data', (data) => {
+        stdout += data.toString();
+      });
+      tesseract.stderr?.on('data', (data) => {
+        stderr += data.toString();
+      });
+
+      tesseract.on('close', (code, killSignal) => {
+        if (code === 0) {
+          resolve(stdout);
+        } else {
+          reject(
+            this._getResourceLimitError(killSignal, stderr) ||
+              new Error(
+                `Orientation detection failed with exit code ${code ?? killSignal}. stderr: ${stderr}`,
+              ),
+          );
+        }
+      });
+
+      tesseract.on('error', (error) => {
+        if (signal?.aborted) {
+          reject(error);
+          return;
+        }
+        reject(
+          new Error(`Failed to start Tesseract process: ${error.message}`),
+        );
+      });
+    });
+
+    // OSD OUTPUT CONSISTS OF `<key>: <value>` LINES
+    const values = new Map<string, string>();
+    for (const line of output.split('\n')) {
+      const separator = line.indexOf(':');
+      if (separator > 0) {
+        values.set(
+          line.slice(0, separator).trim(),
+          line.slice(separator + 1).trim(),
+        );
+      }
+    }
+
+    const rotation = parseInt(values.get('Rotate'), 10);
+    if (![0, 90, 180, 270].includes(rotation)) {
+      throw new Error(`Tesseract reported no orientation: ${output.trim()}`);
+    }
+
+    return {
+      rotation: rotation as PageRotation,
+      orientationConfidence:
+        parseFloat(values.get('Orientation confidence')) || 0,
+      script: values.get('Script') || 'unknown',
+      scriptConfidence: parseFloat(values.get('Script confidence')) || 0,
+    };
+  }
+
+  /**
+   * Checks that Tesseract can load the data of a language by recognizing an image with it
+   * @param inputPath - Path to a small test image
+   * @param language - The language code
+   * @param tessdataDir - Optional directory to load the language data from, defaults to `TESSDATA_DIR`
+   * @returns Promise that resolves when Tesseract loaded the language and recognized the image
+   * @throws {Error} When Tesseract cannot load the language data
+   */
+  async verifyLanguage(
+    inputPath: string,
+    language: string,
+    tessdataDir?: string,
+  ): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const args = [
+        inputPath,
+        'stdout',
+        '-l',
+        language,
+        ...this._tessdataArgs(tessdataDir),
+      ];
+      this._logger.debug(`Running Tesseract with args: ${args.join(' ')}`);
+
+      const tesseract: ChildProcess = spawn('tesseract', args);
+
+      let stderr = '';
+      tesseract.stderr?.on('data', (data) => {
+        stderr += data.toString();
+      });
+
+      tesseract.on('close', (code) => {
+        if (code === 0) {
+          resolve();
+        } else {
+          reject(
+            new Error(
+              `Tesseract cannot load language ${language} (exit code ${code}): ${stderr.trim()}`,
+            ),
+          );
+        }
+      });
+
+      tesseract.on('error', (error) => {
+        reject(
+          new Error(`Failed to start Tesseract process: ${error.message}`),
+        );
+      });
+    });
+  }
+
+  /**
+   * Gets the parameters Tesseract runs with for a set of OCR options, including its defaults
+   * @param options - OCR options, the language defaults to 'deu'
+   * @returns The language and engine parameters, `psm` of the options takes precedence over `tesseract.psm`
+   */
+  getEffectiveParameters(options: OcrOptions): EffectiveTesseractParameters {
+    return {
+      ...options.tesseract,
+      language: options.language || 'deu',
+      psm: options.psm ?? options.tesseract?.psm ?? DEFAULT_PSM,
+      oem: options.tesseract?.oem ?? DEFAULT_OEM,
+    };
+  }
+
   /**
    * Runs Tesseract OCR process on an input image file
-   * @param inputPath - Path to the input image file
+   * @param inputPath - Path to the input image file, or to a list file with one image path per line
    * @param outputBasePath - Base path for output files (without extension)
-   * @param language - OCR language code (e.g., 'deu', 'eng', 'deu+eng')
+   * @param options - OCR options, the language (e.g. 'deu', 'eng', 'deu+eng') defaults to 'deu'
+   * @param configs - Tesseract output configs, e.g. `tsv` or `hocr`
+   * @param onPageStarted - Optional callback receiving the number of each page Tesseract starts to recognize
+   * @param signal - Optional signal to abort processing, the Tesseract process is killed when it fires
    * @returns Promise that resolves when Tesseract processing completes
-   * @throws {Error} When Tesseract process fails
+   * @throws {Error} When Tesseract process fails or was aborted
+   * @throws {JobError} When Tesseract exceeded its memory or CPU time limit
    * @private
    */
   private async _runTesseract(
     inputPath: string,
     outputBasePath: string,
-    language: string,
+    options: OcrOptions,
+    configs: string[],
+    onPageStarted?: (pageNumber: number) => void,
+    signal?: AbortSignal,
   ): Promise<void> {
     return new Promise((resolve, reject) => {
-      // USE TSV OUTPUT FORMAT FOR DETAILED WORD-LEVEL INFORMATION
-      const args = [inputPath, outputBasePath, '-l', language, 'tsv'];
+      const args = [
+        inputPath,
+        outputBasePath,
+        ...this._getParameterArgs(this.getEffectiveParameters(options)),
+        ...this._tessdataArgs(),
+        ...configs,
+      ];
 
       this._logger.debug(`Running Tesseract with args: ${args.join(' ')}`);
 
-      const tesseract: ChildProcess = spawn('tesseract', args);
+      // SPAWNING WITH THE SIGNAL KILLS THE PROCESS WHEN THE JOB IS CANCELLED
+      const tesseract = this._spawnTesseract(args, signal);
 
       let stderr = '';
       let stdout = '';
+      let parsedLength = 0;
 
       tesseract.stdout?.on('data', (data) => {
         stdout += data.toString();
@@ -228,24 +497,45 @@ export class OcrService {
         const chunk = data.toString();
         stderr += chunk;
 
+        // TESSERACT REPORTS `Page <n>` ON STDERR FOR EVERY PAGE OF A MULTI-PAGE INPUT, ONLY COMPLETE LINES ARE PARSED
+        const completeLength = stderr.lastIndexOf('\n') + 1;
+        const lines = stderr.slice(parsedLength, completeLength).split('\n');
+        for (const line of lines) {
+          const match = /^Page (\d+)/.exec(line.trim());
+          if (match) onPageStarted?.(parseInt(match[1], 10));
+        }
+        parsedLength = completeLength;
+
         // LOG TESSERACT OUTPUT FOR DEBUGGING
         this._logger.debug(`Tesseract stderr: ${chunk.trim()}`);
       });
 
-      tesseract.on('close', (code) => {
-        this._logger.debug(`Tesseract process closed with code: ${code}`);
+      tesseract.on('close', (code, killSignal) => {
+        this._logger.debug(
+          `Tesseract process closed with code: ${code ?? killSignal}`,
+        );
         if (stdout) this._logger.debug(`Tesseract stdout: ${stdout}`);
+        if (signal?.aborted) return; // ALREADY REJECTED BY THE ERROR HANDLER
 
+        const limitError = this._getResourceLimitError(killSignal, stderr);
         if (code === 0) {
           resolve();
+        } else if (limitError) {
+          this._logger.warn(limitError.message);
+          reject(limitError);
         } else {
-          const errorMsg = `Tesseract failed with exit code ${code}. stderr: ${stderr}`;
+          const errorMsg = `Tesseract failed with exit code ${code ?? killSignal}. stderr: ${stderr}`;
           this._logger.error(errorMsg);
           reject(new Error(errorMsg));
         }
       });
 
       tesseract.on('error', (error) => {
+        if (signal?.aborted) {
+          this._logger.debug('Tesseract process killed, processing aborted');
+          reject(error);
+          return;
+        }
         const errorMsg = `Failed to start Tesseract process: ${error.message}`;
         this._logger.error(errorMsg);
         reject(new Error(errorMsg));
@@ -253,16 +543,134 @@ export class OcrService {
     });
   }
 
+  /**
+   * Spawns a Tesseract recognition process with the configured thread, memory and CPU time limits
+   * Memory and CPU time are limited with `ulimit` in a shell that replaces itself with Tesseract
+   * @param args - The Tesseract arguments
+   * @param signal - Optional signal that kills the process when it fires
+   * @returns The spawned process
+   * @private
+   */
+  private _spawnTesseract(args: string[], signal?: AbortSignal): ChildProcess {
+    const env =
+      this._threadLimit > 0
+        ? { ...process.env, OMP_THREAD_LIMIT: this._threadLimit.toString() }
+        : process.env;
+
+    const limits: string[] = [];
+    if (this._memoryLimitMb > 0) {
+      limits.push(`ulimit -v ${this._memoryLimitMb * 1024}`);
+    }
+    if (this._cpuLimitSeconds > 0) {
+      // THE SOFT LIMIT SENDS SIGXCPU, THE HARD LIMIT ONE SECOND LATER ONLY GUARDS AGAINST IGNORED SIGNALS
+      limits.push(
+        `ulimit -St ${this._cpuLimitSeconds}`,
+        `ulimit -Ht ${this._cpuLimitSeconds + 1}`,
+      );
+    }
+    if (limits.length === 0) return spawn('tesseract', args, { env, signal });
+
+    // `exec` KEEPS THE PROCESS ID, SO ABORTING STILL KILLS TESSERACT ITSELF
+    const script = `${limits.join(' && ')} && exec tesseract "$@"`;
+    return spawn('sh', ['-c', script, 'tesseract', ...args], { env, signal });
+  }
+
+  /**
+   * Checks whether a failed Tesseract process was stopped by its memory or CPU time limit
+   * @param killSignal - The signal that terminated the process, null if it exited by itself
+   * @param stderr - The error output of the process
+   * @returns An error with code `RESOURCE_LIMIT`, or undefined if the process failed for another reason
+   * @private
+   */
+  private _getResourceLimitError(
+    killSignal: NodeJS.Signals | null,
+    stderr: string,
+  ): JobError | undefined {
+    // ONLY SIGXCPU PROVES THE CPU TIME LIMIT, SIGKILL ALSO COMES FROM THE OOM KILLER OR OTHER PROCESSES
+    if (this._cpuLimitSeconds > 0 && killSignal === 'SIGXCPU') {
+      return new JobError(
+        'RESOURCE_LIMIT',
+        `Tesseract exceeded the CPU time limit of ${this._cpuLimitSeconds} s`,
+      );
+    }
+
+    // FAILED ALLOCATIONS EITHER ABORT TESSERACT OR ARE REPORTED BY LEPTONICA
+    if (
+      this._memoryLimitMb > 0 &&
+      (killSignal === 'SIGABRT' ||
+        killSignal === 'SIGSEGV' ||
+        /bad_alloc|alloc(ation)? fail|out of memory|cannot allocate/i.test(
+          stderr,
+        ))
+    ) {
+      return new JobError(
+        'RESOURCE_LIMIT',
+        `Tesseract exceeded the memory limit of ${this._memoryLimitMb} MB`,
+      );
+    }
+    return undefined;
+  }
+
+  /**
+   * Gets the arguments pointing Tesseract to the language data directory
+   * @param tessdataDir - The directory, defaults to `TESSDATA_DIR`
+   * @returns `--tessdata-dir` with the directory, or no arguments to use the data directory Tesseract was built with
+   * @private
+   */
+  private _tessdataArgs(tessdataDir = this._tessdataDir): string[] {
+    return tessdataDir ? ['--tessdata-dir', tessdataDir] : [];
+  }
+
+  /**
+   * Converts engine parameters into Tesseract command line arguments
+   * @param parameters - The effective engine parameters
+   * @returns The arguments, config variables are passed with `-c name=value`
+   * @private
+   */
+  private _getParameterArgs(
+    parameters: EffectiveTesseractParameters,
+  ): string[] {
+    const args = [
+      '-l',
+      parameters.language,
+      '--psm',
+      parameters.psm.toString(),
+      '--oem',
+      parameters.oem.toString(),
+    ];
+    if (parameters.dpi !== undefined) {
+      args.push('--dpi', parameters.dpi.toString());
+    }
+
+    const variables: Record<string, string | number | boolean> = {
+      ...parameters.variables,
+    };
+    if (parameters.whitelist !== undefined) {
+      variables.tessedit_char_whitelist = parameters.whitelist;
+    }
+    if (parameters.blacklist !== undefined) {
+      variables.tessedit_char_blacklist = parameters.blacklist;
+    }
+    if (parameters.preserveInterwordSpaces !== undefined) {
+      variables.preserve_interword_spaces = parameters.preserveInterwordSpaces;
+    }
+
+    // TESSERACT EXPECTS BOOLEAN VARIABLES AS 0 OR 1
+    for (const [name, value] of Object.entries(variables)) {
+      const text = typeof value === 'boolean' ? (value ? '1' : '0') : value;
+      args.push('-c', `${name}=${text}`);
+    }
+    return args;
+  }
+
   /**
    * Parses Tesseract TSV output file into structured OCR data
    * @param tsvPath - Path to the TSV output file from Tesseract
-   * @returns Promise resolving to array of OCR results with text and bounding boxes
+   * @returns Promise resolving to OCR results with text and bounding boxes, grouped by page
    * @throws {Error} When TSV file cannot be read or parsed
    * @private
    */
-  private async _parseTsvOutput(
-    tsvPath: string,
-  ): Promise<DimensionData<TextContent>[]> {
+  private async _parseTsvOutput(tsvPath: string): Promise<TsvPageResult[]> {
     try {
       // CHECK IF FILE EXISTS AND GET ITS SIZE
       const stats = await fs.stat(tsvPath);
@@ -346,6 +754,18 @@ export class OcrService {
     });
   }
 
+  /**
+   * Gets the installed Tesseract languages that can be used for OCR
+   * @returns Promise resolving to the language codes, without data files that are no languages like `osd`
+   */
+  async getInstalledLanguages(): Promise<string[]> {
+    const languages = await this._getAvailableLanguages();
+    return languages.filter(
+      (language) =>
+        /^[\w-]+$/.test(language) && !NON_LANGUAGE_DATA.includes(language),
+    );
+  }
+
   /**
    * Gets the list of available Tesseract languages
    * @returns Promise resolving to array of language codes
@@ -353,7 +773,10 @@ export class OcrService {
    */
   private async _getAvailableLanguages(): Promise<string[]> {
     return new Promise((resolve) => {
-      const tesseract = spawn('tesseract', ['--list-langs']);
+      const tesseract = spawn('tesseract', [
+        '--list-langs',
+        ...this._tessdataArgs(),
+      ]);
       let output = '';
 
       tesseract.stdout?.on('data', (data) => {
@@ -0,0 +1,371 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ChildProcess, spawn } from 'child_process';
+import { promises as fs } from 'fs';
+import { basename, dirname, join } from 'path';
+import Jimp from 'jimp';
+import * as UTIF from 'utif2';
+import {
+  DimensionData,
+  InputDocumentType,
+  OcrRegion,
+  PageRotation,
+} from '../types/ocr.types';
+import { raceAbort } from '../types/race-abort.function';
+
+// FILE SIGNATURES OF PDF AND TIFF (LITTLE AND BIG ENDIAN) DOCUMENTS
+const PDF_MAGIC = Buffer.from('%PDF');
+const TIFF_MAGICS = [
+  Buffer.from([0x49, 0x49, 0x2a, 0x00]),
+  Buffer.from([0x4d, 0x4d, 0x00, 0x2a]),
+];
+
+// PIXELS WITH A LUMINANCE BELOW THIS VALUE (0-255) COUNT AS INK
+const DARK_PIXEL_LUMINANCE = 128;
+
+@Injectable()
+export class PageExtractorService {
+  private readonly _logger = new Logger(PageExtractorService.name);
+  private readonly _pdfDpi = parseInt(process.env.PDF_RENDER_DPI || '300', 10);
+
+  /**
+   * Detects the document type of an uploaded file from its content
+   * @param buffer - The uploaded file data
+   * @returns The detected document type
+   */
+  detectDocumentType(buffer: Buffer): InputDocumentType {
+    if (buffer.subarray(0, PDF_MAGIC.length).equals(PDF_MAGIC)) {
+      return 'pdf';
+    }
+
+    const header = buffer.subarray(0, 4);
+    if (TIFF_MAGICS.some((magic) => header.equals(magic))) {
+      return 'tiff';
+    }
+
+    return 'image';
+  }
+
+  /**
+   * Gets the file extension to use for an input file of the given type
+   * @param documentType - The document type of the input file
+   * @returns File extension without leading dot
+   */
+  getFileExtension(documentType: InputDocumentType): string {
+    switch (documentType) {
+      case 'pdf':
+        return 'pdf';
+      case 'tiff':
+        return 'tif';
+      default:
+        return 'png';
+    }
+  }
+
+  /**
+   * Extracts one image file per page from an input document
+   * @param inputPath - Path to the input document
+   * @param documentType - The document type of the input file
+   * @param outputBasePath - Base path for extracted page images (without page number and extension)
+   * @param signal - Optional signal to abort the extraction, kills the `pdftoppm` process
+   * @returns Promise resolving to the page image paths in page order, the input path itself for single images
+   * @throws {Error} When the document cannot be rasterized or the extraction was aborted
+   */
+  async extractPages(
+    inputPath: string,
+    documentType: InputDocumentType,
+    outputBasePath: string,
+    signal?: AbortSignal,
+  ): Promise<string[]> {
+    switch (documentType) {
+      case 'pdf':
+        return this._rasterizePdf(inputPath, outputBasePath, signal);
+      case 'tiff':
+        return this._splitTiff(inputPath, outputBasePath, signal);
+      default:
+        return [inputPath];
+    }
+  }
+
+  /**
+   * Crops a region out of a page image and writes it to a PNG file
+   * @param pagePath - Path to the page image
+   * @param region - The region with coordinates normalized to 0-1
+   * @param outputPath - Path of the PNG file to write
+   * @param signal - Optional signal to abort before the region image is written
+   * @returns Promise that resolves when the region image is written
+   * @throws {Error} When the page image cannot be read or the signal fired
+   */
+  async extractRegion(
+    pagePath: string,
+    region: OcrRegion,
+    outputPath: string,
+    signal?: AbortSignal,
+  ): Promise<void> {
+    const image = await this._readImage(pagePath, signal);
+    const { width, height } = image.bitmap;
+
+    // CONVERT TO PIXELS, KEEP AT LEAST ONE PIXEL INSIDE THE IMAGE
+    const x = Math.min(Math.round(region.left * width), width - 1);
+    const y = Math.min(Math.round(region.top * height), height - 1);
+    const w = Math.max(
+      1,
+      Math.min(Math.round(region.width * width), width - x),
+    );
+    const h = Math.max(
+      1,
+      Math.min(Math.round(region.height * height), height - y),
+    );
+
+    signal?.throwIfAborted();
+    await image.crop(x, y, w, h).writeAsync(outputPath);
+  }
+
+  /**
+   * Rotates a page image by a multiple of 90 degrees and writes it to a PNG file
+   * @param pagePath - Path to the page image
+   * @param rotation - Clockwise rotation in degrees
+   * @param outputPath - Path of the PNG file to write
+   * @param signal - Optional signal to abort before the rotated image is written
+   * @returns Promise that resolves when the rotated image is written
+   * @throws {Error} When the page image cannot be read or the signal fired
+   */
+  async rotatePage(
+    pagePath: string,
+    rotation: PageRotation,
+    outputPath: string,
+    signal?: AbortSignal,
+  ): Promise<void> {
+    const image = await this._readImage(pagePath, signal);
+
+    // JIMP ROTATES COUNTER-CLOCKWISE
+    signal?.throwIfAborted();
+    await image.rotate(-rotation).writeAsync(outputPath);
+  }
+
+  /**
+   * Writes a copy of a page image that fits into a square of the given size, e.g. for quick test runs
+   * @param pagePath - Path to the page image
+   * @param maxSize - Maximum width and height in pixels, smaller images are copied unchanged
+   * @param outputPath - Path of the PNG file to write
+   * @param signal - Optional signal to abort before the image is written
+   * @returns Promise that resolves when the image is written
+   * @throws {Error} When the page image cannot be read or the signal fired
+   */
+  async scaleDown(
+    pagePath: string,
+    maxSize: number,
+    outputPath: string,
+    signal?: AbortSignal,
+  ): Promise<void> {
+    const image = await this._readImage(pagePath, signal);
+    const { width, height } = image.bitmap;
+
+    if (width > maxSize || height > maxSize) {
+      image.scaleToFit(maxSize, maxSize);
+    }
+    signal?.throwIfAborted();
+    await image.writeAsync(outputPath);
+  }
+
+  /**
+   * Measures how much of each zone of a page image is covered with ink, e.g. to detect ticked checkboxes
+   * @param pagePath - Path to the page image
+   * @param zones - Zones with coordinates normalized to 0-1
+   * @param signal - Optional signal to abort reading the page image
+   * @returns Promise resolving to the share of dark pixels (0-1), one value per zone
+   * @throws {Error} When the page image cannot be read or the signal fired
+   */
+  async getDarkPixelRatios(
+    pagePath: string,
+    zones: DimensionData<unknown>[],
+    signal?: AbortSignal,
+  ): Promise<number[]> {
+    const image = await this._readImage(pagePath, signal);
+    const { width, height, data } = image.bitmap;
+
+    return zones.map((zone) => {
+      const x1 = Math.round(zone.left * width);
+      const y1 = Math.round(zone.top * height);
+      const x2 = Math.min(width, Math.round((zone.left + zone.width) * width));
+      const y2 = Math.min(
+        height,
+        Math.round((zone.top + zone.height) * height),
+      );
+
+      let dark = 0;
+      let total = 0;
+      for (let y = y1; y < y2; y++) {
+        for (let x = x1; x < x2; x++) {
+          const offset = (y * width + x) * 4;
+          const luminance =
+            0.299 * data[offset] +
+            0.587 * data[offset + 1] +
+            0.114 * data[offset + 2];
+          if (luminance < DARK_PIXEL_LUMINANCE) dark++;
+          total++;
+        }
+      }
+
+      return total > 0 ? dark / total : 0;
+    });
+  }
+
+  /**
+   * Rasterizes all pages of a PDF document to PNG files using `pdftoppm`
+   * @param inputPath - Path to the PDF document
+   * @param outputBasePath - Base path for the page images
+   * @param signal - Optional signal that kills the `pdftoppm` process
+   * @returns Promise resolving to the page image paths in page order
+   * @throws {Error} When `pdftoppm` fails, produces no pages or was aborted
+   * @private
+   */
+  private async _rasterizePdf(
+    inputPath: string,
+    outputBasePath: string,
+    signal?: AbortSignal,
+  ): Promise<string[]> {
+    const rasterized = new Promise<void>((resolve, reject) => {
+      const args = [
+        '-r',
+        this._pdfDpi.toString(),
+        '-png',
+        inputPath,
+        outputBasePath,
+      ];
+
+      this._logger.debug(`Running pdftoppm with args: ${args.join(' ')}`);
+
+      const pdftoppm: ChildProcess = spawn('pdftoppm', args, { signal });
+
+      let stderr = '';
+      pdftoppm.stderr?.on('data', (data) => {
+        stderr += data.toString();
+      });
+
+      // AFTER AN ABORT, REJECT ONLY ONCE THE PROCESS HAS EXITED AND STOPPED WRITING PAGES
+      pdftoppm.on('close', (code) => {
+        if (signal?.aborted) {
+          reject(signal.reason);
+        } else if (code === 0) {
+          resolve();
+        } else {
+          reject(
+            new Error(
+              `PDF rasterization failed with exit code ${code}. stderr: ${stderr}`,
+            ),
+          );
+        }
+      });
+
+      pdftoppm.on('error', (error) => {
+        if (signal?.aborted) return;
+        reject(new Error(`Failed to start pdftoppm process: ${error.message}`));
+      });
+    });
+
+    try {
+      await rasterized;
+    } catch (error) {
+      // PAGES WRITTEN BEFORE THE FAILURE ARE NOT KNOWN TO THE CALLER
+      const writtenPaths = await this._listPdfPages(outputBasePath);
+      await Promise.all(
+        writtenPaths.map((path) => fs.rm(path, { force: true })),
+      );
+      throw error;
+    }
+
+    const pagePaths = await this._listPdfPages(outputBasePath);
+    if (pagePaths.length === 0) {
+      throw new Error('PDF document contains no pages');
+    }
+
+    this._logger.debug(`Rasterized PDF into ${pagePaths.length} pages`);
+    return pagePaths;
+  }
+
+  /**
+   * Lists the page images `pdftoppm` wrote for a base path
+   * @param outputBasePath - Base path of the page images
+   * @returns Promise resolving to the page image paths in page order
+   * @private
+   */
+  private async _listPdfPages(outputBasePath: string): Promise<string[]> {
+    // PDFTOPPM WRITES `<base>-<page>.png`, PAGE NUMBERS ARE ZERO-PADDED FOR LARGE DOCUMENTS
+    const prefix = `${basename(outputBasePath)}-`;
+    const directory = dirname(outputBasePath);
+    return (await fs.readdir(directory))
+      .filter(
+        (fileName) => fileName.startsWith(prefix) && fileName.endsWith('.png'),
+      )
+      .sort(
+        (a, b) =>
+          parseInt(a.slice(prefix.length), 10) -
+          parseInt(b.slice(prefix.length), 10),
+      )
+      .map((fileName) => join(directory, fileName));
+  }
+
+  /**
+   * Reads and decodes an image file, the decoding cannot be interrupted, so an abort only discards its result
+   * @param pagePath - Path to the image file
+   * @param signal - Optional signal that stops waiting for the image
+   * @returns Promise resolving to the decoded image
+   * @throws {Error} When the image cannot be read or the signal fired
+   * @private
+   */
+  private _readImage(pagePath: string, signal?: AbortSignal): Promise<Jimp> {
+    return raceAbort(Jimp.read(pagePath), signal);
+  }
+
+  /**
+   * Splits a (multi-frame) TIFF file into one PNG file per frame
+   * @param inputPath - Path to the TIFF file
+   * @param outputBasePath - Base path for the page images
+   * @param signal - Optional signal to stop before the next frame
+   * @returns Promise resolving to the page image paths in frame order
+   * @throws {Error} When the TIFF file contains no decodable frames or splitting was aborted
+   * @private
+   */
+  private async _splitTiff(
+    inputPath: string,
+    outputBasePath: string,
+    signal?: AbortSignal,
+  ): Promise<string[]> {
+    const data = await fs.readFile(inputPath);
+    const frames = UTIF.decode(data);
+    const pagePaths: string[] = [];
+
+    // DECODE FRAMES ONE AFTER ANOTHER TO KEEP ONLY ONE FRAME IN MEMORY
+    try {
+      for (const frame of frames) {
+        signal?.throwIfAborted();
+        UTIF.decodeImage(data, frame);
+        if (!frame.width || !frame.height) continue;
+
+        const image = new Jimp({
+          data: Buffer.from(UTIF.toRGBA8(frame)),
+          width: frame.width,
+          height: frame.height,
+        });
+
+        const pagePath = `${outputBasePath}-${pagePaths.length + 1}.png`;
+        await image.writeAsync(pagePath);
+        pagePaths.push(pagePath);
+
+        // RELEASE DECODED FRAME DATA
+        frame.data = undefined;
+      }
+    } catch (error) {
+      // PAGES WRITTEN BEFORE THE FAILURE ARE NOT KNOWN TO THE CALLER
+      await Promise.all(pagePaths.map((path) => fs.rm(path, { force: true })));
+      throw error;
+    }
+
+    if (pagePaths.length === 0) {
+      throw new Error('TIFF file contains no decodable frames');
+    }
+
+    this._logger.debug(`Split TIFF into ${pagePaths.length} pages`);
+    return pagePaths;
+  }
+}
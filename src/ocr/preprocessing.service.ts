@@ -0,0 +1,54 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { join } from 'path';
+import { PreprocessingStep } from '../types/preprocessing.types';
+import { runWorker } from '../types/run-worker.function';
+
+// COMPILED NEXT TO THIS FILE
+const WORKER_SCRIPT = join(__dirname, 'preprocessing.worker.js');
+
+@Injectable()
+export class PreprocessingService {
+  private readonly _logger = new Logger(PreprocessingService.name);
+  private readonly _minDpi = parseInt(
+    process.env.PREPROCESS_MIN_DPI || '200',
+    10,
+  );
+  private readonly _targetDpi = parseInt(
+    process.env.PREPROCESS_TARGET_DPI || '300',
+    10,
+  );
+
+  /**
+   * Applies preprocessing steps to a page image to improve OCR results, the image is processed in a worker thread
+   * The aspect ratio is kept, so normalized coordinates on the result are valid for the original image
+   * @param pagePath - Path to the page image
+   * @param steps - Steps to apply, in any order
+   * @param outputPath - Path of the PNG file to write the preprocessed image to
+   * @param signal - Optional signal to abort preprocessing, terminates the worker thread
+   * @returns Promise resolving to the steps actually applied, `upscale` is skipped for images with sufficient resolution
+   * @throws {Error} When the page image cannot be read or written, or preprocessing was aborted
+   */
+  async preprocess(
+    pagePath: string,
+    steps: PreprocessingStep[],
+    outputPath: string,
+    signal?: AbortSignal,
+  ): Promise<PreprocessingStep[]> {
+    const applied = await runWorker<PreprocessingStep[]>(
+      WORKER_SCRIPT,
+      {
+        pagePath,
+        steps,
+        outputPath,
+        minDpi: this._minDpi,
+        targetDpi: this._targetDpi,
+      },
+      signal,
+    );
+
+    this._logger.debug(
+      `Preprocessed ${pagePath} (${applied.join(', ') || 'no steps'})`,
+    );
+    return applied;
+  }
+}
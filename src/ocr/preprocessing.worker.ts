@@ -0,0 +1,169 @@
+import { parentPort, workerData } from 'worker_threads';
+import Jimp from 'jimp';
+import { PreprocessingStep } from '../types/preprocessing.types';
+
+// PREPROCESSES ONE PAGE IMAGE IN A WORKER THREAD, SO THE PIXEL LOOPS DO NOT BLOCK THE EVENT LOOP
+
+// STEPS ARE ALWAYS APPLIED IN THIS ORDER, REGARDLESS OF THE ORDER IN THE REQUEST
+const STEP_ORDER: PreprocessingStep[] = [
+  'upscale',
+  'grayscale',
+  'normalize',
+  'denoise',
+  'binarize',
+];
+
+// THE RESOLUTION OF PHOTOS IS UNKNOWN, IT IS ESTIMATED ASSUMING THE SHORTER SIDE SHOWS AN A4 PAGE
+const A4_SHORT_SIDE_INCHES = 8.27;
+const MAX_UPSCALE_FACTOR = 4;
+
+// BINARIZATION COMPARES EVERY PIXEL WITH THE MEAN OF ITS NEIGHBORHOOD (BRADLEY'S METHOD)
+const BINARIZE_WINDOW_DIVISOR = 16;
+const BINARIZE_SENSITIVITY = 0.15;
+
+/**
+ * Applies preprocessing steps to a page image and writes the result as PNG
+ * @param pagePath - Path to the page image
+ * @param steps - Steps to apply, in any order
+ * @param outputPath - Path of the PNG file to write the preprocessed image to
+ * @param minDpi - Estimated resolution below which the image is scaled up
+ * @param targetDpi - Resolution the image is scaled up to
+ * @returns Promise resolving to the steps actually applied
+ */
+async function preprocessFile(
+  pagePath: string,
+  steps: PreprocessingStep[],
+  outputPath: string,
+  minDpi: number,
+  targetDpi: number,
+): Promise<PreprocessingStep[]> {
+  const image = await Jimp.read(pagePath);
+  const applied: PreprocessingStep[] = [];
+
+  for (const step of STEP_ORDER.filter((step) => steps.includes(step))) {
+    switch (step) {
+      case 'upscale':
+        if (!upscale(image, minDpi, targetDpi)) continue;
+        break;
+      case 'grayscale':
+        image.greyscale();
+        break;
+      case 'normalize':
+        image.normalize();
+        break;
+      case 'denoise':
+        denoise(image);
+        break;
+      case 'binarize':
+        binarize(image);
+        break;
+    }
+    applied.push(step);
+  }
+
+  await image.writeAsync(outputPath);
+  return applied;
+}
+
+/**
+ * Scales an image up if its estimated resolution is below the minimum
+ * @param image - The image, modified in place
+ * @param minDpi - Estimated resolution below which the image is scaled up
+ * @param targetDpi - Resolution the image is scaled up to
+ * @returns True if the image was scaled, false if its resolution is sufficient
+ */
+function upscale(image: Jimp, minDpi: number, targetDpi: number): boolean {
+  const { width, height } = image.bitmap;
+  const estimatedDpi = Math.min(width, height) / A4_SHORT_SIDE_INCHES;
+  if (estimatedDpi >= minDpi) return false;
+
+  const factor = Math.min(MAX_UPSCALE_FACTOR, targetDpi / estimatedDpi);
+  image.scale(factor, Jimp.RESIZE_BICUBIC);
+  return true;
+}
+
+/**
+ * Removes salt-and-pepper noise with a 3x3 median filter on every color channel
+ * @param image - The image, modified in place
+ */
+function denoise(image: Jimp): void {
+  const { width, height, data } = image.bitmap;
+  const source = Buffer.from(data);
+  const window = new Uint8Array(9);
+
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const offset = (y * width + x) * 4;
+      for (let channel = 0; channel < 3; channel++) {
+        let count = 0;
+        for (let dy = -1; dy <= 1; dy++) {
+          for (let dx = -1; dx <= 1; dx++) {
+            window[count++] =
+              source[((y + dy) * width + (x + dx)) * 4 + channel];
+          }
+        }
+        data[offset + channel] = window.sort()[4];
+      }
+    }
+  }
+}
+
+/**
+ * Converts an image to black and white with a threshold adapted to the local brightness, which copes with shadows and uneven lighting
+ * @param image - The image, modified in place
+ */
+function binarize(image: Jimp): void {
+  const { width, height, data } = image.bitmap;
+
+  // INTEGRAL IMAGE OF THE LUMINANCE, FOR CONSTANT-TIME NEIGHBORHOOD SUMS
+  const stride = width + 1;
+  const integral = new Float64Array(stride * (height + 1));
+  for (let y = 0; y < height; y++) {
+    let rowSum = 0;
+    for (let x = 0; x < width; x++) {
+      const offset = (y * width + x) * 4;
+      rowSum +=
+        0.299 * data[offset] +
+        0.587 * data[offset + 1] +
+        0.114 * data[offset + 2];
+      integral[(y + 1) * stride + x + 1] =
+        integral[y * stride + x + 1] + rowSum;
+    }
+  }
+
+  const radius = Math.max(
+    1,
+    Math.floor(Math.max(width, height) / BINARIZE_WINDOW_DIVISOR / 2),
+  );
+  for (let y = 0; y < height; y++) {
+    const y1 = Math.max(0, y - radius);
+    const y2 = Math.min(height, y + radius + 1);
+    for (let x = 0; x < width; x++) {
+      const x1 = Math.max(0, x - radius);
+      const x2 = Math.min(width, x + radius + 1);
+      const sum =
+        integral[y2 * stride + x2] -
+        integral[y1 * stride + x2] -
+        integral[y2 * stride + x1] +
+        integral[y1 * stride + x1];
+      const count = (x2 - x1) * (y2 - y1);
+
+      const offset = (y * width + x) * 4;
+      const luminance =
+        0.299 * data[offset] +
+        0.587 * data[offset + 1] +
+        0.114 * data[offset + 2];
+      const value =
+        luminance * count <= sum * (1 - BINARIZE_SENSITIVITY) ? 0 : 255;
+      data[offset] = data[offset + 1] = data[offset + 2] = value;
+    }
+  }
+}
+
+void preprocessFile(
+  workerData.pagePath,
+  workerData.steps,
+  workerData.outputPath,
+  workerData.minDpi,
+  workerData.targetDpi,
+).then((applied) => parentPort.postMessage(applied));
@@ -0,0 +1,196 @@
+import { Injectable, Logger } from '@nestjs/common';
+import {
+  WebhookDeliveryAttempt,
+  WebhookPayload,
+} from '../types/return-strategy.types';
+import {
+  createWebhookSignature,
+  WEBHOOK_KEY_ID_HEADER,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+} from '../types/webhook-signature.function';
+
+@Injectable()
+export class WebhookService {
+  private readonly _logger = new Logger(WebhookService.name);
+  private readonly _maxRetries = parseInt(
+    process.env.WEBHOOK_MAX_RETRIES || '5',
+    10,
+  );
+  private readonly _retryBaseMs = parseInt(
+    process.env.WEBHOOK_RETRY_BASE_MS || '1000',
+    10,
+  );
+  private readonly _retryMaxMs = parseInt(
+    process.env.WEBHOOK_RETRY_MAX_MS || '60000',
+    10,
+  );
+  private readonly _timeoutMs = parseInt(
+    process.env.WEBHOOK_TIMEOUT_MS || '10000',
+    10,
+  );
+  private readonly _secret = process.env.WEBHOOK_SECRET;
+  private readonly _keys = this._parseKeys(process.env.WEBHOOK_SECRETS);
+
+  /**
+   * Checks if a signing key with the given ID is configured
+   * @param keyId - The key ID requested by the client
+   * @returns True if the key exists, false otherwise
+   */
+  hasSigningKey(keyId: string): boolean {
+    return this._keys.has(keyId);
+  }
+
+  /**
+   * Delivers a webhook payload, retrying failed attempts with exponential backoff and jitter
+   * @param url - Target webhook URL
+   * @param payload - The payload to send as JSON body
+   * @param headers - Optional custom headers
+   * @param keyId - Optional ID of the signing key, the default `WEBHOOK_SECRET` is used otherwise
+   * @param onAttempt - Called after every attempt with its outcome
+   * @returns Promise resolving to true if an attempt succeeded, false if all attempts failed
+   */
+  async deliver(
+    url: string,
+    payload: WebhookPayload,
+    headers: Record<string, string> | undefined,
+    keyId: string | undefined,
+    onAttempt: (attempt: WebhookDeliveryAttempt) => void,
+  ): Promise<boolean> {
+    const body = JSON.stringify(payload);
+
+    for (let retry = 0; retry <= this._maxRetries; retry++) {
+      if (retry > 0) {
+        await new Promise((resolve) =>
+          setTimeout(resolve, this._getRetryDelay(retry)),
+        );
+      }
+
+      const attempt = await this._send(url, body, {
+        ...headers,
+        ...this._getSignatureHeaders(body, keyId),
+      });
+      onAttempt(attempt);
+
+      if (attempt.success) {
+        this._logger.debug(`Webhook sent successfully to "${url}"`);
+        return true;
+      }
+
+      this._logger.warn(
+        `Webhook attempt ${retry + 1}/${this._maxRetries + 1} failed "${url}": ${attempt.error}`,
+      );
+    }
+
+    this._logger.error(`Webhook delivery to "${url}" failed after all retries`);
+    return false;
+  }
+
+  /**
+   * Sends a single webhook request, a request without response within `WEBHOOK_TIMEOUT_MS` is a failed attempt
+   * @param url - Target webhook URL
+   * @param body - The serialized JSON payload
+   * @param headers - Custom and signature headers
+   * @returns Promise resolving to the outcome of the attempt
+   * @private
+   */
+  private async _send(
+    url: string,
+    body: string,
+    headers: Record<string, string>,
+  ): Promise<WebhookDeliveryAttempt> {
+    const timestamp = new Date();
+
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...headers,
+        },
+        body,
+        signal: AbortSignal.timeout(this._timeoutMs),
+      });
+
+      return {
+        timestamp,
+        success: response.ok,
+        statusCode: response.status,
+        error: response.ok
+          ? undefined
+          : `${response.status} ${response.statusText}`,
+      };
+    } catch (error) {
+      if (error.name === 'TimeoutError') {
+        return {
+          timestamp,
+          success: false,
+          error: `No response within ${this._timeoutMs} ms`,
+        };
+      }
+      return { timestamp, success: false, error: error.message };
+    }
+  }
+
+  /**
+   * Creates the signature headers for a webhook body, every attempt is signed with a fresh timestamp
+   * @param body - The serialized JSON payload
+   * @param keyId - Optional ID of the signing key
+   * @returns The signature headers, empty if no secret is configured
+   * @private
+   */
+  private _getSignatureHeaders(
+    body: string,
+    keyId?: string,
+  ): Record<string, string> {
+    const secret = keyId ? this._keys.get(keyId) : this._secret;
+    if (!secret) return {};
+
+    const timestamp = Math.floor(Date.now() / 1000);
+    const headers: Record<string, string> = {
+      [WEBHOOK_SIGNATURE_HEADER]: createWebhookSignature(
+        secret,
+        timestamp,
+        body,
+      ),
+      [WEBHOOK_TIMESTAMP_HEADER]: timestamp.toString(),
+    };
+    if (keyId) headers[WEBHOOK_KEY_ID_HEADER] = keyId;
+    return headers;
+  }
+
+  /**
+   * Parses the additional signing keys from `WEBHOOK_SECRETS`
+   * @param value - Comma-separated `<keyId>:<secret>` pairs
+   * @returns Map of secrets keyed by key ID
+   * @private
+   */
+  private _parseKeys(value?: string): Map<string, string> {
+    const keys = new Map<string, string>();
+
+    for (const entry of (value || '').split(',')) {
+      const separator = entry.indexOf(':');
+      if (separator <= 0) continue;
+      keys.set(
+        entry.slice(0, separator).trim(),
+        entry.slice(separator + 1).trim(),
+      );
+    }
+
+    return keys;
+  }
+
+  /**
+   * Calculates the delay before a retry: exponential backoff, capped, with up to 50% random jitter
+   * @param retry - The retry number, starting from 1
+   * @returns Delay in milliseconds
+   * @private
+   */
+  private _getRetryDelay(retry: number): number {
+    const backoff = Math.min(
+      this._retryBaseMs * 2 ** (retry - 1),
+      this._retryMaxMs,
+    );
+    return Math.round(backoff / 2 + (Math.random() * backoff) / 2);
+  }
+}
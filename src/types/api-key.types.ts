@@ -0,0 +1,26 @@
+export interface ApiKeyLimits {
+  maxImageSize?: number;
+  allowedLanguages?: string[];
+  dailyJobQuota?: number;
+}
+
+export interface ApiKeyConfig extends ApiKeyLimits {
+  name: string;
+  key: string;
+  admin?: boolean;
+}
+
+export interface ApiKeyUsage {
+  jobsToday: number;
+  totalJobs: number;
+  bytesProcessed: number;
+  rejectedJobs: number;
+  lastUsedAt?: Date;
+}
+
+export interface ApiKeyUsageReport {
+  name: string;
+  admin: boolean;
+  limits: ApiKeyLimits;
+  usage: ApiKeyUsage;
+}
@@ -0,0 +1,32 @@
+export type FormFieldType = 'text' | 'date' | 'number' | 'checkbox' | 'barcode';
+
+export interface FormFieldDefinition {
+  name: string;
+  type: FormFieldType;
+  page?: number;
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+  pattern?: string;
+}
+
+export interface FormTemplateInput {
+  name: string;
+  description?: string;
+  fields: FormFieldDefinition[];
+}
+
+export interface FormTemplate extends FormTemplateInput {
+  id: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface FormFieldContent {
+  type: FormFieldType;
+  value: string | number | boolean | null;
+  text: string;
+  confidence: number;
+  pageNumber: number;
+}
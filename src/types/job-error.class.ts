@@ -0,0 +1,19 @@
+import { JobErrorCode } from './return-strategy.types';
+
+/**
+ * Error that fails a job with a machine-readable error code, e.g. when a processing limit is hit
+ * Unlike other errors it is never skipped by optional pipeline steps
+ */
+export class JobError extends Error {
+  /**
+   * @param code - The error code reported with the failed job
+   * @param message - The error message
+   */
+  constructor(
+    readonly code: JobErrorCode,
+    message: string,
+  ) {
+    super(message);
+    this.name = 'JobError';
+  }
+}
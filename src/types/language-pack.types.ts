@@ -0,0 +1,12 @@
+export interface LanguagePack {
+  language: string;
+  size?: number;
+  modifiedAt?: Date;
+  removable: boolean;
+}
+
+export interface LanguagePackValidation {
+  language: string;
+  valid: boolean;
+  error?: string;
+}
@@ -0,0 +1,26 @@
+import { DimensionData, LayoutBlockContent } from './ocr.types';
+
+/**
+ * Applies a coordinate transformation to every block, paragraph and line of a layout
+ * @param layout - The block/paragraph/line layout
+ * @param mapCoordinates - Transformation returning a copy of an element with new coordinates
+ * @returns A copy of the layout with transformed coordinates
+ */
+export function mapLayoutCoordinates(
+  layout: DimensionData<LayoutBlockContent>[],
+  mapCoordinates: <T>(item: DimensionData<T>) => DimensionData<T>,
+): DimensionData<LayoutBlockContent>[] {
+  return layout.map((block) => ({
+    ...mapCoordinates(block),
+    data: {
+      ...block.data,
+      paragraphs: block.data.paragraphs.map((paragraph) => ({
+        ...mapCoordinates(paragraph),
+        data: {
+          ...paragraph.data,
+          lines: paragraph.data.lines.map((line) => mapCoordinates(line)),
+        },
+      })),
+    },
+  }));
+}
@@ -0,0 +1,25 @@
+import { DimensionData } from './ocr.types';
+
+/**
+ * Maps an element from the coordinate system of a cropped region back into the coordinate system of the full page
+ * Both coordinate systems are normalized to 0-1
+ * @param item - Element with coordinates relative to the region
+ * @param region - The region, with coordinates relative to the page
+ * @returns A copy of the element with coordinates relative to the page
+ */
+export function mapRegionToPage<T>(
+  item: DimensionData<T>,
+  region: DimensionData<unknown>,
+): DimensionData<T> {
+  const mapped: DimensionData<T> = {
+    ...item,
+    left: region.left + item.left * region.width,
+    top: region.top + item.top * region.height,
+    width: item.width * region.width,
+    height: item.height * region.height,
+  };
+  if (item.baseline !== undefined) {
+    mapped.baseline = region.top + item.baseline * region.height;
+  }
+  return mapped;
+}
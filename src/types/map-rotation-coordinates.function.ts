@@ -0,0 +1,45 @@
+import { DimensionData, PageRotation } from './ocr.types';
+
+/**
+ * Maps an element from the coordinate system of a rotated page back into the coordinate system of the original page
+ * Both coordinate systems are normalized to 0-1
+ * @param item - Element with coordinates relative to the rotated page
+ * @param rotation - Clockwise rotation in degrees that was applied to the original page
+ * @returns A copy of the element with coordinates relative to the original page, the baseline is dropped if the text runs vertically in the original page
+ */
+export function mapRotatedToOriginal<R extends DimensionData<unknown>>(
+  item: R,
+  rotation: PageRotation,
+): R {
+  const right = item.left + item.width;
+  const bottom = item.top + item.height;
+  const { baseline, ...mapped } = item;
+
+  switch (rotation) {
+    case 90:
+      return {
+        ...mapped,
+        left: item.top,
+        top: 1 - right,
+        width: item.height,
+        height: item.width,
+      } as R;
+    case 180:
+      return {
+        ...mapped,
+        left: 1 - right,
+        top: 1 - bottom,
+        ...(baseline !== undefined && { baseline: 1 - baseline }),
+      } as R;
+    case 270:
+      return {
+        ...mapped,
+        left: 1 - bottom,
+        top: item.left,
+        width: item.height,
+        height: item.width,
+      } as R;
+    default:
+      return item;
+  }
+}
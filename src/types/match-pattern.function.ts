@@ -0,0 +1,30 @@
+import { createContext, Script } from 'vm';
+
+// A MATCH RUNNING LONGER IS STOPPED, E.G. A CATASTROPHICALLY BACKTRACKING PATTERN LIKE `(a+)+$`
+export const PATTERN_TIMEOUT_MS = 100;
+
+const MATCH_SCRIPT = new Script('match = new RegExp(pattern).exec(text);');
+
+/**
+ * Applies a user-supplied regular expression to a text with a time limit, so a slow pattern cannot block the event loop
+ * @param pattern - The regular expression source
+ * @param text - The text to search
+ * @returns The whole match followed by the capture groups, or null if the pattern does not match
+ * @throws {Error} When the pattern is invalid or the match takes longer than `PATTERN_TIMEOUT_MS`
+ */
+export function matchPattern(pattern: string, text: string): string[] | null {
+  const context = createContext({ pattern, text, match: null });
+
+  try {
+    MATCH_SCRIPT.runInContext(context, { timeout: PATTERN_TIMEOUT_MS });
+  } catch (error) {
+    if (error.code === 'ERR_SCRIPT_EXECUTION_TIMEOUT') {
+      throw new Error(
+        `Pattern ${pattern} did not finish within ${PATTERN_TIMEOUT_MS} ms`,
+      );
+    }
+    throw error;
+  }
+
+  return context.match ? Array.from(context.match) : null;
+}
@@ -1,3 +1,9 @@
+import { FormFieldContent } from './form-template.types';
+import {
+  PreprocessingStep,
+  PreprocessingStepReport,
+} from './preprocessing.types';
+
 export interface DimensionData<T = void> {
   left: number;
   top: number;
@@ -13,13 +19,147 @@ export interface DataContent {
   type: 'QR_CODE' | 'BAR_CODE' | 'OTHER' | string;
 }
 
+// RAW ZBAR RESULT OF ONE IMAGE, COORDINATES IN PIXELS
+export interface CodeScanResult {
+  width: number;
+  height: number;
+  symbols: {
+    typeName: string;
+    content: string;
+    points: { x: number; y: number }[];
+  }[];
+}
+
 export interface TextContent {
   id: string;
   text: string;
   confidence?: number;
+  regionId?: string;
+}
+
+export interface LayoutLineContent {
+  id: string;
+  wordIds: string[];
+}
+
+export interface LayoutParagraphContent {
+  id: string;
+  lines: DimensionData<LayoutLineContent>[];
+}
+
+export interface LayoutBlockContent {
+  id: string;
+  paragraphs: DimensionData<LayoutParagraphContent>[];
+}
+
+export type OutputFormat = 'json' | 'hocr' | 'alto' | 'pdf';
+
+export interface OcrRegion {
+  id?: string;
+  page?: number;
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+  language?: string;
+  psm?: number;
+}
+
+export interface TesseractParameters {
+  psm?: number;
+  oem?: number;
+  dpi?: number;
+  whitelist?: string;
+  blacklist?: string;
+  preserveInterwordSpaces?: boolean;
+  variables?: Record<string, string | number | boolean>;
+}
+
+export interface EffectiveTesseractParameters extends TesseractParameters {
+  language: string;
+  psm: number;
+  oem: number;
+}
+
+export interface OcrOptions {
+  language?: string;
+  languages?: string[];
+  layout?: boolean;
+  markdown?: boolean;
+  outputFormat?: OutputFormat;
+  regions?: OcrRegion[];
+  psm?: number;
+  tesseract?: TesseractParameters;
+  templateId?: string;
+  preprocessing?: PreprocessingStep[];
+  autoRotate?: boolean;
+  originalCoordinates?: boolean;
+}
+
+export interface OcrOutputDocument {
+  format: OutputFormat;
+  url: string;
+  content?: string;
+}
+
+export type InputDocumentType = 'image' | 'pdf' | 'tiff';
+
+export interface OcrPageResult {
+  pageNumber: number;
+  words: DimensionData<TextContent>[];
+  codes: DimensionData<DataContent>[];
+  layout?: DimensionData<LayoutBlockContent>[];
+  text: string;
+}
+
+export type PageRotation = 0 | 90 | 180 | 270;
+
+export interface OrientationDetection {
+  rotation: PageRotation;
+  orientationConfidence: number;
+  script: string;
+  scriptConfidence: number;
+}
+
+export interface PageOrientation extends OrientationDetection {
+  pageNumber: number;
+  corrected: boolean;
+}
+
+export interface LanguageScore {
+  language: string;
+  score: number;
+}
+
+export interface LanguageDetection {
+  language: string;
+  script?: string;
+  score: number;
+  candidates: LanguageScore[];
+}
+
+export interface OcrRegionResult {
+  id: string;
+  pageNumber: number;
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+  text: string;
 }
 
 export interface OcrProcessResult {
   words: DimensionData<TextContent>[];
   codes: DimensionData<DataContent>[];
+  layout?: DimensionData<LayoutBlockContent>[];
+  text: string;
+  markdown?: string;
+  pages?: OcrPageResult[];
+  regions?: OcrRegionResult[];
+  fields?: Record<string, DimensionData<FormFieldContent>>;
+  preprocessing?: PreprocessingStepReport[];
+  orientation?: PageOrientation[];
+  detectedLanguage?: LanguageDetection;
+  tesseract: EffectiveTesseractParameters;
+  output?: OcrOutputDocument;
 }
@@ -0,0 +1,71 @@
+// DATE FORMATS COMMON ON GERMAN AND ENGLISH FORMS: DAY FIRST WITH `.` OR `/`, OR ISO
+const DAY_FIRST_DATE = /(\d{1,2})\s*[./]\s*(\d{1,2})\s*[./]\s*(\d{4}|\d{2})\b/;
+const ISO_DATE = /(\d{4})-(\d{1,2})-(\d{1,2})/;
+
+// TWO-DIGIT YEARS UP TO THIS VALUE ARE INTERPRETED AS 20XX, LATER ONES AS 19XX
+const TWO_DIGIT_YEAR_PIVOT = 50;
+
+/**
+ * Parses a number as printed on German or English forms, e.g. `1.234,56`, `1,234.56` or `-12,5 €`
+ * When both separators occur the last one is the decimal separator, a single comma is always a decimal separator
+ * @param text - Recognized text containing the number
+ * @returns The parsed number, or null if the text contains no number
+ */
+export function parseNumber(text: string): number | null {
+  const match = /-?\d[\d.,' ]*/.exec(text);
+  if (!match) return null;
+
+  let digits = match[0].replace(/[' ]/g, '').replace(/[.,]$/, '');
+  const lastComma = digits.lastIndexOf(',');
+  const lastDot = digits.lastIndexOf('.');
+
+  if (lastComma > lastDot) {
+    // COMMA IS THE DECIMAL SEPARATOR, DOTS GROUP THOUSANDS
+    digits = digits.replace(/\./g, '').replace(',', '.');
+  } else if (lastComma >= 0) {
+    // DOT IS THE DECIMAL SEPARATOR, COMMAS GROUP THOUSANDS
+    digits = digits.replace(/,/g, '');
+  } else if ((digits.match(/\./g) || []).length > 1) {
+    // SEVERAL DOTS CAN ONLY GROUP THOUSANDS
+    digits = digits.replace(/\./g, '');
+  }
+
+  const value = parseFloat(digits);
+  return Number.isFinite(value) ? value : null;
+}
+
+/**
+ * Parses a date as printed on German or English forms, e.g. `24.12.2024`, `24/12/24` or `2024-12-24`
+ * @param text - Recognized text containing the date
+ * @returns The date as `YYYY-MM-DD`, or null if the text contains no valid date
+ */
+export function parseDate(text: string): string | null {
+  let year: number, month: number, day: number;
+
+  const isoMatch = ISO_DATE.exec(text);
+  const dayFirstMatch = DAY_FIRST_DATE.exec(text);
+  if (isoMatch) {
+    [year, month, day] = isoMatch.slice(1).map((part) => parseInt(part, 10));
+  } else if (dayFirstMatch) {
+    [day, month, year] = dayFirstMatch
+      .slice(1)
+      .map((part) => parseInt(part, 10));
+    if (dayFirstMatch[3].length === 2) {
+      year += year <= TWO_DIGIT_YEAR_PIVOT ? 2000 : 1900;
+    }
+  } else {
+    return null;
+  }
+
+  // REJECT DATES THAT DO NOT EXIST, E.G. 31.02.
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (
+    date.getUTCFullYear() !== year ||
+    date.getUTCMonth() !== month - 1 ||
+    date.getUTCDate() !== day
+  ) {
+    return null;
+  }
+
+  return date.toISOString().slice(0, 10);
+}
@@ -1,4 +1,10 @@
-import { DimensionData, TextContent } from './ocr.types';
+import {
+  DimensionData,
+  LayoutBlockContent,
+  LayoutLineContent,
+  LayoutParagraphContent,
+  TextContent,
+} from './ocr.types';
 import { nanoid } from './nanoid.function';
 
 // CHARACTERS WITH DESCENDERS THAT EXTEND BELOW THE BASELINE
@@ -125,27 +131,32 @@ export interface TesseractTsvLineData {
   text: string;
 }
 
+export interface TsvPageResult {
+  pageNumber: number;
+  words: DimensionData<TextContent>[];
+  layout: DimensionData<LayoutBlockContent>[];
+}
+
 /**
  * Parses Tesseract TSV output into structured OCR data
  * @param tsvContent - Array of TSV lines from Tesseract output
- * @returns Promise resolving to array of word-level OCR results with normalized coordinates
+ * @returns Promise resolving to word-level OCR results and their block/paragraph/line layout with normalized coordinates, grouped by page
  * @throws {Error} When TSV parsing fails
  */
 export async function parseTsvOutput(
   tsvContent: string[],
-): Promise<DimensionData<TextContent>[]> {
+): Promise<TsvPageResult[]> {
   try {
     // SKIP HEADER LINE
     const dataLines = tsvContent.slice(1);
 
-    const words: DimensionData<TextContent>[] = [];
+    const pages = new Map<number, TsvPageResult>();
+    const pageSizes = new Map<number, { width: number; height: number }>();
 
-    // CONSIDER `dataLines.shift()` TO GET AND PROCESS PAGE LINE
-    const l = dataLines.find((x) => x[0] === '1').split('\t');
-    const pageSize =
-      l && l.length === 12
-        ? { width: parseInt(l[8]), height: parseInt(l[9]) }
-        : { width: 0, height: 0 };
+    // LAYOUT ELEMENTS OF THE CURRENT PAGE, KEYED BY `block_num`, `block_num.par_num` AND `block_num.par_num.line_num`
+    let blocks = new Map<string, DimensionData<LayoutBlockContent>>();
+    let paragraphs = new Map<string, DimensionData<LayoutParagraphContent>>();
+    let lines = new Map<string, DimensionData<LayoutLineContent>>();
 
     for (const line of dataLines) {
       const columns = line.split('\t');
@@ -153,10 +164,31 @@ export async function parseTsvOutput(
       // HAS TO HAVE 12 COLUMNS
       if (columns.length < 12) continue;
 
+      const level = parseInt(columns[0]);
+      const pageNumber = parseInt(columns[1]);
+
+      // PAGE LINES (LEVEL 1) DEFINE THE SIZE USED FOR NORMALIZATION
+      if (level === 1) {
+        pageSizes.set(pageNumber, {
+          width: parseInt(columns[8]),
+          height: parseInt(columns[9]),
+        });
+        pages.set(pageNumber, { pageNumber, words: [], layout: [] });
+        blocks = new Map();
+        paragraphs = new Map();
+        lines = new Map();
+        continue;
+      }
+
+      const page = pages.get(pageNumber);
+      if (!page) continue;
+
+      const pageSize = pageSizes.get(pageNumber);
+
       // ALIGN WITH MODEL / NORMALIZE DATA
       const lineData: TesseractTsvLineData = {
-        level: parseInt(columns[0]),
-        page_num: parseInt(columns[1]),
+        level,
+        page_num: pageNumber,
         block_num: parseInt(columns[2]),
         par_num: parseInt(columns[3]),
         line_num: parseInt(columns[4]),
@@ -169,37 +201,113 @@ export async function parseTsvOutput(
         text: columns[11],
       };
 
-      // ONLY PROCESS WORD-LEVEL DATA (LEVEL 5)
-      if (lineData.level === 5 && lineData.text.trim()) {
-        const wordId = nanoid();
-
-        words.push({
-          left: lineData.left,
-          top: lineData.top,
-          width: lineData.width,
-          height: lineData.height,
-          baseline: calculateBaseline(
-            lineData.text.trim(),
-            lineData.top,
-            lineData.height,
-          ),
-          data: {
-            id: wordId,
-            text: lineData.text.trim(),
-            confidence: lineData.conf,
-          },
-        });
+      const box = {
+        left: lineData.left,
+        top: lineData.top,
+        width: lineData.width,
+        height: lineData.height,
+      };
+      const blockKey = `${lineData.block_num}`;
+      const paragraphKey = `${blockKey}.${lineData.par_num}`;
+      const lineKey = `${paragraphKey}.${lineData.line_num}`;
+
+      switch (lineData.level) {
+        case 2: {
+          const block = { ...box, data: { id: nanoid(), paragraphs: [] } };
+          blocks.set(blockKey, block);
+          page.layout.push(block);
+          break;
+        }
+        case 3: {
+          const paragraph = { ...box, data: { id: nanoid(), lines: [] } };
+          paragraphs.set(paragraphKey, paragraph);
+          blocks.get(blockKey)?.data.paragraphs.push(paragraph);
+          break;
+        }
+        case 4: {
+          const layoutLine = { ...box, data: { id: nanoid(), wordIds: [] } };
+          lines.set(lineKey, layoutLine);
+          paragraphs.get(paragraphKey)?.data.lines.push(layoutLine);
+          break;
+        }
+        case 5: {
+          // ONLY WORDS WITH TEXT ARE PART OF THE RESULT
+          if (!lineData.text.trim()) break;
+
+          const wordId = nanoid();
+
+          page.words.push({
+            ...box,
+            baseline: calculateBaseline(
+              lineData.text.trim(),
+              lineData.top,
+              lineData.height,
+            ),
+            data: {
+              id: wordId,
+              text: lineData.text.trim(),
+              confidence: lineData.conf,
+            },
+          });
+          lines.get(lineKey)?.data.wordIds.push(wordId);
+          break;
+        }
       }
     }
 
     // SORT WORDS IN READING ORDER: TOP TO BOTTOM BY BASELINE, LEFT TO RIGHT WITHIN LINES
-    return sortWordsInReadingOrder(words);
+    return [...pages.values()]
+      .sort((a, b) => a.pageNumber - b.pageNumber)
+      .map((page) => ({
+        ...page,
+        words: sortWordsInReadingOrder(page.words),
+        layout: filterLayoutWords(
+          page.layout,
+          new Set(page.words.map((word) => word.data.id)),
+        ),
+      }));
   } catch (error) {
-    this.logger.error('Failed to parse TSV output', error);
     throw new Error(`Failed to parse OCR results: ${error.message}`);
   }
 }
 
+/**
+ * Removes words that are not part of the given set from a layout, dropping lines, paragraphs and blocks left empty
+ * @param layout - Layout blocks to filter
+ * @param wordIds - IDs of the words to keep
+ * @returns Filtered copy of the layout
+ */
+export function filterLayoutWords(
+  layout: DimensionData<LayoutBlockContent>[],
+  wordIds: Set<string>,
+): DimensionData<LayoutBlockContent>[] {
+  return layout
+    .map((block) => ({
+      ...block,
+      data: {
+        ...block.data,
+        paragraphs: block.data.paragraphs
+          .map((paragraph) => ({
+            ...paragraph,
+            data: {
+              ...paragraph.data,
+              lines: paragraph.data.lines
+                .map((line) => ({
+                  ...line,
+                  data: {
+                    ...line.data,
+                    wordIds: line.data.wordIds.filter((id) => wordIds.has(id)),
+                  },
+                }))
+                .filter((line) => line.data.wordIds.length > 0),
+            },
+          }))
+          .filter((paragraph) => paragraph.data.lines.length > 0),
+      },
+    }))
+    .filter((block) => block.data.paragraphs.length > 0);
+}
+
 /**
  * Sorts words in natural reading order by grouping words with similar baselines and sorting by position
  * @param words - Array of word elements with baseline and position data
@@ -0,0 +1,11 @@
+export type PreprocessingStep =
+  | 'upscale'
+  | 'grayscale'
+  | 'normalize'
+  | 'denoise'
+  | 'binarize';
+
+export interface PreprocessingStepReport {
+  step: PreprocessingStep;
+  pages: number[];
+}
@@ -0,0 +1,31 @@
+/**
+ * Races a promise against an abort signal, for steps that cannot be stopped themselves
+ * The step keeps running in the background after an abort, only its result is discarded
+ * @param promise - The promise of the step
+ * @param signal - Optional signal that rejects the returned promise when it fires
+ * @returns Promise settling like the step, or rejecting with the abort reason if the signal fires first
+ * @throws {Error} When the step fails or the signal fired
+ */
+export function raceAbort<T>(
+  promise: Promise<T>,
+  signal?: AbortSignal,
+): Promise<T> {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(signal.reason);
+
+  return new Promise((resolve, reject) => {
+    const onAbort = (): void => reject(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+
+    promise.then(
+      (value) => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      (error) => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      },
+    );
+  });
+}
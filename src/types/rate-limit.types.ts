@@ -0,0 +1,14 @@
+export type RateLimitBudget = 'submit' | 'status';
+
+export interface RateLimitPolicy {
+  capacity: number;
+  windowSeconds: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  policy: RateLimitPolicy;
+  remaining: number;
+  resetSeconds: number;
+  retryAfterSeconds: number;
+}
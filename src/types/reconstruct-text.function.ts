@@ -0,0 +1,130 @@
+import {
+  DimensionData,
+  LayoutBlockContent,
+  LayoutParagraphContent,
+  TextContent,
+} from './ocr.types';
+
+// CHARACTERS TESSERACT COMMONLY RECOGNIZES AS LIST BULLETS
+const BULLET_CHARS = new Set(['•', '●', '▪', '■', '◦', '-', '–', '*', '·']);
+
+// MINIMUM HEIGHT OF A PARAGRAPH'S WORDS RELATIVE TO THE PAGE MEDIAN TO BE TREATED AS A HEADING
+const HEADING_HEIGHT_FACTOR = 1.5;
+
+/**
+ * Reconstructs plain text from the words and layout of one page
+ * Lines are separated by a line break, paragraphs and blocks by a blank line
+ * @param words - Words of the page
+ * @param layout - Block/paragraph/line layout of the page
+ * @returns The page text
+ */
+export function reconstructText(
+  words: DimensionData<TextContent>[],
+  layout: DimensionData<LayoutBlockContent>[],
+): string {
+  const wordsById = new Map(words.map((word) => [word.data.id, word]));
+
+  return getParagraphs(layout)
+    .map((paragraph) => getLineTexts(paragraph, wordsById).join('\n'))
+    .join('\n\n');
+}
+
+/**
+ * Renders the words and layout of one page as Markdown
+ * Paragraphs are reflowed into single lines, large single-line paragraphs become headings and bulleted lines become list items
+ * @param words - Words of the page
+ * @param layout - Block/paragraph/line layout of the page
+ * @returns The page as Markdown
+ */
+export function renderMarkdown(
+  words: DimensionData<TextContent>[],
+  layout: DimensionData<LayoutBlockContent>[],
+): string {
+  const wordsById = new Map(words.map((word) => [word.data.id, word]));
+  const medianHeight = getMedian(words.map((word) => word.height));
+
+  return getParagraphs(layout)
+    .map((paragraph) => {
+      const lines = getLineTexts(paragraph, wordsById);
+
+      // LIST: EVERY LINE STARTING WITH A BULLET BECOMES ITS OWN ITEM
+      if (BULLET_CHARS.has(lines[0].charAt(0))) {
+        return lines
+          .map((line) =>
+            BULLET_CHARS.has(line.charAt(0))
+              ? `- ${escapeMarkdown(line.slice(1).trim())}`
+              : `  ${escapeMarkdown(line)}`,
+          )
+          .join('\n');
+      }
+
+      // HEADING: SINGLE LINE WITH CLEARLY LARGER TEXT THAN THE REST OF THE PAGE
+      const paragraphWords = paragraph.data.lines
+        .flatMap((line) => line.data.wordIds)
+        .map((id) => wordsById.get(id));
+      const paragraphHeight = getMedian(
+        paragraphWords.map((word) => word.height),
+      );
+      if (
+        lines.length === 1 &&
+        paragraphHeight >= medianHeight * HEADING_HEIGHT_FACTOR
+      ) {
+        return `## ${escapeMarkdown(lines[0])}`;
+      }
+
+      return escapeMarkdown(lines.join(' '));
+    })
+    .join('\n\n');
+}
+
+/**
+ * Flattens the blocks of a layout into their paragraphs
+ * @param layout - Block/paragraph/line layout of a page
+ * @returns All paragraphs in layout order
+ */
+function getParagraphs(
+  layout: DimensionData<LayoutBlockContent>[],
+): DimensionData<LayoutParagraphContent>[] {
+  return layout.flatMap((block) => block.data.paragraphs);
+}
+
+/**
+ * Builds the text of every line of a paragraph
+ * @param paragraph - The paragraph to read
+ * @param wordsById - Words of the page, keyed by ID
+ * @returns One text per line, words separated by a single space
+ */
+function getLineTexts(
+  paragraph: DimensionData<LayoutParagraphContent>,
+  wordsById: Map<string, DimensionData<TextContent>>,
+): string[] {
+  return paragraph.data.lines.map((line) =>
+    line.data.wordIds.map((id) => wordsById.get(id).data.text).join(' '),
+  );
+}
+
+/**
+ * Escapes characters that would otherwise be interpreted as Markdown formatting
+ * @param text - Plain text
+ * @returns Text safe to embed in Markdown
+ */
+function escapeMarkdown(text: string): string {
+  return text
+    .replace(/([\\`*_[\]<>|])/g, '\\$1')
+    .replace(/^(#+|\d+\.|[-+])(\s)/, '\\$1$2');
+}
+
+/**
+ * Calculates the median of a list of numbers
+ * @param values - The numbers
+ * @returns The median, or 0 for an empty list
+ */
+function getMedian(values: number[]): number {
+  if (values.length === 0) return 0;
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2
+    ? sorted[middle]
+    : (sorted[middle - 1] + sorted[middle]) / 2;
+}
@@ -0,0 +1,26 @@
+import { DimensionData } from './ocr.types';
+
+/**
+ * Checks if two rectangles overlap
+ * @param rect1 - First rectangle
+ * @param rect2 - Second rectangle
+ * @returns True if rectangles overlap, false otherwise
+ */
+export function rectanglesOverlap(
+  rect1: DimensionData<any>,
+  rect2: DimensionData<any>,
+): boolean {
+  const rect1Right = rect1.left + rect1.width;
+  const rect1Bottom = rect1.top + rect1.height;
+  const rect2Right = rect2.left + rect2.width;
+  const rect2Bottom = rect2.top + rect2.height;
+
+  // RECTANGLES DON'T OVERLAP IF ONE IS COMPLETELY TO THE LEFT, RIGHT, ABOVE, OR BELOW THE OTHER
+  const noOverlap =
+    rect1Right <= rect2.left || // RECT1 IS TO THE LEFT OF RECT2
+    rect2Right <= rect1.left || // RECT2 IS TO THE LEFT OF RECT1
+    rect1Bottom <= rect2.top || // RECT1 IS ABOVE RECT2
+    rect2Bottom <= rect1.top; // RECT2 IS ABOVE RECT1
+
+  return !noOverlap;
+}
@@ -1,4 +1,4 @@
-export type ReturnStrategy = 'sse' | 'webhook' | 'polling';
+export type ReturnStrategy = 'sse' | 'webhook' | 'polling' | 'sync';
 
 export interface ProcessingRequest {
   returnStrategy: ReturnStrategy;
@@ -6,20 +6,54 @@ export interface ProcessingRequest {
   callbackHeaders?: Record<string, string>;
 }
 
+export type ProgressStage =
+  | 'received'
+  | 'decoded'
+  | 'oriented'
+  | 'preprocessed'
+  | 'language'
+  | 'ocr'
+  | 'codes'
+  | 'postprocessing';
+
+// `TIMEOUT`: THE JOB EXCEEDED `JOB_TIMEOUT_MS`, `RESOURCE_LIMIT`: TESSERACT EXCEEDED ITS MEMORY OR CPU TIME LIMIT
+export type JobErrorCode = 'TIMEOUT' | 'RESOURCE_LIMIT';
+
 export interface JobStatus {
   jobId: string;
-  status: 'processing' | 'completed' | 'failed';
+  status: 'queued' | 'processing' | 'completed' | 'failed' | 'cancelled';
+  queuePosition?: number;
   progress?: number;
+  stage?: ProgressStage;
   result?: any;
   error?: string;
+  errorCode?: JobErrorCode;
   createdAt: Date;
   completedAt?: Date;
+  ownerKey?: string;
+  webhook?: WebhookDelivery;
+}
+
+export interface WebhookDeliveryAttempt {
+  timestamp: Date;
+  success: boolean;
+  statusCode?: number;
+  error?: string;
+}
+
+export interface WebhookDelivery {
+  url: string;
+  headers?: Record<string, string>;
+  keyId?: string;
+  status: 'pending' | 'delivered' | 'failed';
+  attempts: WebhookDeliveryAttempt[];
 }
 
 export interface WebhookPayload {
   jobId: string;
-  status: 'completed' | 'failed';
+  status: 'completed' | 'failed' | 'cancelled';
   result?: any;
   error?: string;
+  errorCode?: JobErrorCode;
   timestamp: Date;
 }
\ No newline at end of file
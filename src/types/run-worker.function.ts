@@ -0,0 +1,43 @@
+import { Worker } from 'worker_threads';
+
+/**
+ * Runs a script in a worker thread and resolves with the first message the script posts
+ * The thread is terminated when the signal fires, the promise rejects only after the thread has stopped
+ * @param scriptPath - Path of the compiled worker script
+ * @param workerData - Data passed to the script as `workerData`
+ * @param signal - Optional signal that terminates the thread
+ * @returns Promise resolving to the message posted by the script
+ * @throws {Error} When the script fails, exits without posting a message or was aborted
+ */
+export function runWorker<T>(
+  scriptPath: string,
+  workerData: unknown,
+  signal?: AbortSignal,
+): Promise<T> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const worker = new Worker(scriptPath, { workerData });
+    const onAbort = (): void => {
+      void worker.terminate().then(() => reject(signal.reason));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    worker.once('message', (message: T) => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve(message);
+    });
+    worker.once('error', (error) => {
+      signal?.removeEventListener('abort', onAbort);
+      reject(error);
+    });
+    worker.once('exit', (code) => {
+      if (signal?.aborted) return; // REJECTED ONCE THE THREAD IS TERMINATED
+      signal?.removeEventListener('abort', onAbort);
+      reject(new Error(`Worker thread stopped with exit code ${code}`));
+    });
+  });
+}
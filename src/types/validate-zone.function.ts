@@ -0,0 +1,37 @@
+/**
+ * Validates a rectangle with coordinates normalized to 0-1, like a region of interest or a form field zone
+ * @param zone - The rectangle to validate, usually parsed from a request body
+ * @param name - Name of the rectangle used in the error message, e.g. `regions[0]`
+ * @returns A description of the first problem found, or undefined if the rectangle is valid
+ */
+export function getZoneError(zone: unknown, name: string): string | undefined {
+  if (typeof zone !== 'object' || zone === null) {
+    return `${name} must be an object`;
+  }
+
+  // COORDINATES USE THE SAME 0-1 SYSTEM AS THE RESULT
+  const rect = zone as Record<string, unknown>;
+  for (const key of ['left', 'top', 'width', 'height']) {
+    const value = rect[key];
+    if (typeof value !== 'number' || value < 0 || value > 1) {
+      return `${name}.${key} must be a number between 0 and 1`;
+    }
+  }
+
+  const { left, top, width, height } = rect as Record<string, number>;
+  if (width === 0 || height === 0) {
+    return `${name} must not be empty`;
+  }
+  if (left + width > 1 || top + height > 1) {
+    return `${name} must lie within the page`;
+  }
+
+  if (
+    rect.page !== undefined &&
+    (!Number.isInteger(rect.page) || (rect.page as number) < 1)
+  ) {
+    return `${name}.page must be a positive integer`;
+  }
+
+  return undefined;
+}
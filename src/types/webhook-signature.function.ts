@@ -0,0 +1,68 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+// HEADERS ADDED TO SIGNED WEBHOOK REQUESTS, LOWERCASE AS EXPOSED BY NODE.JS
+export const WEBHOOK_SIGNATURE_HEADER = 'x-ocr-signature';
+export const WEBHOOK_TIMESTAMP_HEADER = 'x-ocr-timestamp';
+export const WEBHOOK_KEY_ID_HEADER = 'x-ocr-key-id';
+
+// DEFAULT MAXIMUM AGE OF A SIGNED REQUEST, OLDER REQUESTS ARE TREATED AS REPLAYS
+const DEFAULT_TOLERANCE_SECONDS = 300;
+
+export interface VerifyWebhookSignatureOptions {
+  secret: string;
+  body: string | Buffer;
+  signature: string;
+  timestamp: string;
+  toleranceSeconds?: number;
+  now?: Date;
+}
+
+/**
+ * Creates the signature of a webhook request
+ * The HMAC-SHA256 is calculated over `<timestamp>.<body>`, so a signature cannot be reused with another timestamp
+ * @param secret - The shared webhook secret
+ * @param timestamp - Unix timestamp of the request in seconds
+ * @param body - The raw request body
+ * @returns The signature in the form `sha256=<hex digest>`
+ */
+export function createWebhookSignature(
+  secret: string,
+  timestamp: number | string,
+  body: string | Buffer,
+): string {
+  const hmac = createHmac('sha256', secret);
+  hmac.update(`${timestamp}.`);
+  hmac.update(body);
+  return `sha256=${hmac.digest('hex')}`;
+}
+
+/**
+ * Verifies the signature of a received webhook request
+ * Use the raw request body, re-serialized JSON may differ from the signed bytes
+ * @param options - The secret, the raw body and the values of the signature and timestamp headers
+ * @returns True if the signature is valid and the timestamp is within the tolerance, false otherwise
+ */
+export function verifyWebhookSignature(
+  options: VerifyWebhookSignatureOptions,
+): boolean {
+  const {
+    secret,
+    body,
+    signature,
+    timestamp,
+    toleranceSeconds = DEFAULT_TOLERANCE_SECONDS,
+    now = new Date(),
+  } = options;
+
+  if (!signature || !/^\d+$/.test(timestamp || '')) return false;
+
+  // REJECT REQUESTS OUTSIDE THE TOLERANCE WINDOW TO PREVENT REPLAYS
+  const age = Math.abs(now.getTime() / 1000 - parseInt(timestamp, 10));
+  if (age > toleranceSeconds) return false;
+
+  const expected = Buffer.from(createWebhookSignature(secret, timestamp, body));
+  const received = Buffer.from(signature);
+  return (
+    expected.length === received.length && timingSafeEqual(expected, received)
+  );
+}
@@ -0,0 +1,6 @@
+export interface WorkerStatus {
+  id: number;
+  state: 'idle' | 'processing';
+  since: Date;
+  processedJobs: number;
+}